@@ -0,0 +1,256 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createHash } from "node:crypto";
+import type { Config } from "./config.js";
+import { createLruCache } from "./cache.js";
+import {
+  createRateLimiter,
+  createSemaphore,
+  type RequestClient,
+  type Semaphore,
+} from "./limits.js";
+
+// --- Optional API-key / OAuth bearer authentication for the HTTP transport ---
+
+// Validated OAuth tokens are re-checked with the authorization server after this long
+const INTROSPECTION_CACHE_MS = 60_000;
+
+export interface AuthOptions {
+  /** SHA-256 of each API key -> client name */
+  apiKeys: Map<string, string>;
+  /** OAuth 2.0 token introspection endpoint (RFC 7662) for access tokens */
+  introspection?: { url: string; clientId?: string; clientSecret?: string };
+  /** Issuers announced in the protected-resource metadata */
+  authorizationServers: string[];
+  /** Canonical URL of this MCP endpoint, e.g. https://mem.example.org/mcp */
+  resource: string;
+  rateLimitPerMinute: number;
+  maxConcurrentQueries: number;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Parse API keys, each optionally prefixed with a client name
+ * ("alice:key1"). Names show up in logs and key the rate limits.
+ */
+function parseApiKeys(entries: string[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  entries.forEach((entry, i) => {
+    const colon = entry.indexOf(":");
+    const name = colon > 0 ? entry.slice(0, colon) : `key${i + 1}`;
+    const key = colon > 0 ? entry.slice(colon + 1) : entry;
+    keys.set(sha256(key), name);
+  });
+  return keys;
+}
+
+/** The auth and limit settings from the configuration. */
+export function authOptionsFromConfig(settings: Config): AuthOptions {
+  const { auth, server } = settings;
+  return {
+    apiKeys: parseApiKeys(auth.apiKeys),
+    introspection: auth.oauth.introspectionUrl
+      ? {
+          url: auth.oauth.introspectionUrl,
+          clientId: auth.oauth.clientId,
+          clientSecret: auth.oauth.clientSecret,
+        }
+      : undefined,
+    authorizationServers: auth.oauth.authorizationServers,
+    resource: server.publicUrl ?? `http://localhost:${server.port}/mcp`,
+    rateLimitPerMinute: auth.rateLimitPerMinute,
+    maxConcurrentQueries: auth.maxConcurrentQueries,
+  };
+}
+
+export interface HttpAuth {
+  /** Whether requests need a token */
+  readonly enabled: boolean;
+  /** Answer requests that need no authentication (metadata); true if handled. */
+  handlePublicRequest(req: IncomingMessage, res: ServerResponse): boolean;
+  /**
+   * Authenticate and rate-limit a request. Returns the client, or undefined
+   * after answering with 401 or 429.
+   */
+  admit(req: IncomingMessage, res: ServerResponse): Promise<RequestClient | undefined>;
+  /** Stop background cleanup, e.g. when replaced after a configuration reload. */
+  close(): void;
+}
+
+function sendError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+) {
+  res
+    .writeHead(status, { "Content-Type": "application/json", ...headers })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+/** Bearer token from the Authorization header, or the X-API-Key header. */
+function presentedToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+  if (match) return match[1];
+  const apiKey = req.headers["x-api-key"];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+interface IntrospectionResponse {
+  active: boolean;
+  sub?: string;
+  client_id?: string;
+  exp?: number;
+  aud?: string | string[];
+}
+
+export function createHttpAuth(options: AuthOptions): HttpAuth {
+  const enabled = options.apiKeys.size > 0 || options.introspection !== undefined;
+  const rateLimiter = createRateLimiter(options.rateLimitPerMinute);
+  const semaphores = new Map<string, Semaphore>();
+  const tokenCache = createLruCache<{ clientId?: string; expires: number }>(
+    1000,
+    INTROSPECTION_CACHE_MS
+  );
+
+  // Protected-resource metadata (RFC 9728), at the well-known path with and
+  // without the resource path appended
+  const resourceUrl = new URL(options.resource);
+  const resourcePath = resourceUrl.pathname === "/" ? "" : resourceUrl.pathname;
+  const metadataPaths = new Set([
+    "/.well-known/oauth-protected-resource",
+    `/.well-known/oauth-protected-resource${resourcePath}`,
+  ]);
+  const metadataUrl = `${resourceUrl.origin}/.well-known/oauth-protected-resource${resourcePath}`;
+  const metadata = {
+    resource: options.resource,
+    authorization_servers: options.authorizationServers,
+    bearer_methods_supported: ["header"],
+    resource_name: "MEM Ontology MCP Server",
+  };
+
+  const challenge = (error?: string) => {
+    const params = ['realm="mem-ontology"'];
+    if (error) params.push(`error="${error}"`);
+    if (options.authorizationServers.length > 0) params.push(`resource_metadata="${metadataUrl}"`);
+    return { "WWW-Authenticate": `Bearer ${params.join(", ")}` };
+  };
+
+  function clientFor(id: string): RequestClient {
+    let querySlots = semaphores.get(id);
+    if (!querySlots) {
+      querySlots = createSemaphore(options.maxConcurrentQueries, options.maxConcurrentQueries * 4);
+      semaphores.set(id, querySlots);
+    }
+    return { id, querySlots };
+  }
+
+  const sweep = setInterval(() => {
+    for (const [id, semaphore] of semaphores) if (semaphore.idle()) semaphores.delete(id);
+  }, 60_000);
+  sweep.unref();
+
+  /** Ask the authorization server whether an access token is valid for this resource. */
+  async function introspect(token: string): Promise<string | undefined> {
+    const key = sha256(token);
+    const known = tokenCache.get(key);
+    if (known && known.expires > Date.now()) return known.clientId;
+
+    const { url, clientId, clientSecret } = options.introspection!;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (clientId) {
+      headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret ?? ""}`).toString("base64")}`;
+    }
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`Token introspection failed (${response.status})`);
+    }
+    const info = (await response.json()) as IntrospectionResponse;
+    const audiences = info.aud === undefined ? [] : [info.aud].flat();
+    const valid =
+      info.active &&
+      (info.exp === undefined || info.exp * 1000 > Date.now()) &&
+      (audiences.length === 0 || audiences.includes(options.resource));
+
+    const clientIdOut = valid ? `oauth:${info.sub ?? info.client_id ?? "unknown"}` : undefined;
+    const expires = Math.min(
+      Date.now() + INTROSPECTION_CACHE_MS,
+      info.exp ? info.exp * 1000 : Infinity
+    );
+    tokenCache.set(key, { clientId: clientIdOut, expires });
+    return clientIdOut;
+  }
+
+  async function authenticate(req: IncomingMessage): Promise<string | undefined> {
+    const token = presentedToken(req);
+    if (!token) return undefined;
+    const name = options.apiKeys.get(sha256(token));
+    if (name) return `key:${name}`;
+    return options.introspection ? introspect(token) : undefined;
+  }
+
+  return {
+    enabled,
+
+    handlePublicRequest(req, res) {
+      const path = new URL(req.url ?? "/", "http://localhost").pathname;
+      if (!metadataPaths.has(path) || options.authorizationServers.length === 0) return false;
+      if (req.method !== "GET") {
+        res.writeHead(405, { Allow: "GET" }).end();
+        return true;
+      }
+      res
+        .writeHead(200, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" })
+        .end(JSON.stringify(metadata));
+      return true;
+    },
+
+    async admit(req, res) {
+      let id: string;
+      if (enabled) {
+        let authenticated: string | undefined;
+        try {
+          authenticated = await authenticate(req);
+        } catch (e) {
+          console.error("Authentication error:", e instanceof Error ? e.message : e);
+          sendError(res, 503, "Authentication is temporarily unavailable.");
+          return undefined;
+        }
+        if (!authenticated) {
+          const error = presentedToken(req) ? "invalid_token" : undefined;
+          sendError(res, 401, "Unauthorized: provide a valid bearer token or X-API-Key header.", challenge(error));
+          return undefined;
+        }
+        id = authenticated;
+      } else {
+        id = `ip:${req.socket.remoteAddress ?? "unknown"}`;
+      }
+
+      const retryAfter = rateLimiter.take(id);
+      if (retryAfter > 0) {
+        sendError(
+          res,
+          429,
+          `Rate limit of ${options.rateLimitPerMinute} requests per minute exceeded.`,
+          { "Retry-After": String(retryAfter) }
+        );
+        return undefined;
+      }
+      return clientFor(id);
+    },
+
+    close() {
+      clearInterval(sweep);
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// --- In-memory LRU cache with time-to-live ---
+
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface LruCache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  clear(): void;
+  stats(): CacheStats;
+}
+
+/**
+ * Create an LRU cache. Entries expire ttlMs after being stored; the least
+ * recently used entry is evicted once maxEntries is reached. A maxEntries of
+ * 0 disables caching.
+ */
+export function createLruCache<T>(maxEntries: number, ttlMs: number): LruCache<T> {
+  // Map iteration order is insertion order, so re-inserting on access keeps
+  // the least recently used entry first.
+  const entries = new Map<string, { value: T; expires: number }>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.expires <= Date.now()) {
+        if (entry) entries.delete(key);
+        misses++;
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+    set(key, value) {
+      if (maxEntries === 0) return;
+      entries.delete(key);
+      while (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+        evictions++;
+      }
+      entries.set(key, { value, expires: Date.now() + ttlMs });
+    },
+    clear() {
+      entries.clear();
+    },
+    stats() {
+      return { entries: entries.size, maxEntries, ttlMs, hits, misses, evictions };
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { querySparql } from "./sparql.js";
+import { lp, selectQuery, triple, valuesIris } from "./query-builder.js";
+import { csvCell } from "./output.js";
+
+// --- Cross-state comparison of Lehrplan topics ---
+
+export interface Topic {
+  bundesland: string;
+  uri: string;
+  label: string;
+}
+
+export interface SharedTopic {
+  topic: string;
+  nodes: Topic[];
+}
+
+export interface SimilarTopics {
+  a: Topic;
+  b: Topic;
+  score: number;
+}
+
+export interface TopicComparison {
+  shared: SharedTopic[];
+  stateSpecific: { bundesland: string; topics: Topic[] }[];
+  similar: SimilarTopics[];
+}
+
+const topicSchema = z.object({
+  bundesland: z.string(),
+  uri: z.string(),
+  label: z.string(),
+});
+
+export const comparisonOutputShape = {
+  shared: z
+    .array(z.object({ topic: z.string(), nodes: z.array(topicSchema) }))
+    .describe("Topics whose normalised label occurs in two or more states"),
+  stateSpecific: z
+    .array(z.object({ bundesland: z.string(), topics: z.array(topicSchema) }))
+    .describe("Topics found in only one state and without a similar match elsewhere"),
+  similar: z
+    .array(z.object({ a: topicSchema, b: topicSchema, score: z.number() }))
+    .describe("Pairs of differently worded topics from different states, by label similarity"),
+};
+
+/**
+ * Fetch the labelled nodes below the given Lehrpläne via 'hat Teil', at most
+ * `limit` of them. Only German or untagged labels are used, one per node.
+ */
+export async function fetchTopics(
+  bundesland: string,
+  lehrplanUris: string[],
+  graphs: string[],
+  limit: number
+): Promise<{ topics: Topic[]; truncated: boolean }> {
+  if (lehrplanUris.length === 0) return { topics: [], truncated: false };
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?node", "?label"],
+      from: graphs,
+      where: [
+        valuesIris("lp", lehrplanUris),
+        triple("?lp", `${lp("LP_0000008")}+`, "?node"),
+        triple("?node", "rdfs:label", "?label"),
+        `FILTER(lang(?label) = "de" || lang(?label) = "")`,
+      ],
+      orderBy: ["?node"],
+      limit: limit + 1,
+    })
+  );
+  const topics = new Map<string, Topic>();
+  for (const b of results.results.bindings.slice(0, limit)) {
+    if (!topics.has(b.node.value)) {
+      topics.set(b.node.value, { bundesland, uri: b.node.value, label: b.label.value });
+    }
+  }
+  return { topics: [...topics.values()], truncated: results.results.bindings.length > limit };
+}
+
+const STOPWORDS = new Set([
+  "und", "oder", "der", "die", "das", "den", "dem", "des", "ein", "eine", "einer",
+  "eines", "von", "mit", "im", "in", "zu", "zum", "zur", "für", "fuer", "auf",
+  "an", "am", "bei", "sowie", "als", "aus", "ihre", "ihrer", "sich",
+]);
+
+/**
+ * Normalise a topic label for comparison: lower case, umlauts spelled out,
+ * leading numbering ("Lernbereich 3:", "2.1") and punctuation removed.
+ */
+export function normalizeTopic(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/^\s*(lernbereich|lb|kapitel|thema|themenbereich|bereich)?\s*[\d.]+\s*[:.)-]?\s*/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function tokens(normalized: string): Set<string> {
+  return new Set(
+    normalized.split(" ").filter((t) => t.length > 2 && !STOPWORDS.has(t))
+  );
+}
+
+/** Dice coefficient of the significant words of two normalised labels. */
+export function labelSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let common = 0;
+  for (const t of a) if (b.has(t)) common++;
+  return (2 * common) / (a.size + b.size);
+}
+
+/**
+ * Compare the topics of several states: identical normalised labels are
+ * shared, differently worded labels above minSimilarity are reported as
+ * similar, and everything else is state-specific.
+ */
+export function compareTopics(
+  topicsByState: Map<string, Topic[]>,
+  minSimilarity: number
+): TopicComparison {
+  const byKey = new Map<string, Topic[]>();
+  for (const topics of topicsByState.values()) {
+    for (const topic of topics) {
+      const key = normalizeTopic(topic.label);
+      if (!key) continue;
+      const list = byKey.get(key) ?? [];
+      list.push(topic);
+      byKey.set(key, list);
+    }
+  }
+
+  const shared: SharedTopic[] = [];
+  const uniqueKeys: { key: string; tokens: Set<string>; topics: Topic[] }[] = [];
+  for (const [key, topics] of byKey) {
+    const states = new Set(topics.map((t) => t.bundesland));
+    if (states.size > 1) {
+      shared.push({ topic: topics[0].label, nodes: topics });
+    } else {
+      uniqueKeys.push({ key, tokens: tokens(key), topics });
+    }
+  }
+
+  // Pairwise similarity between state-specific labels of different states
+  const similar: SimilarTopics[] = [];
+  const matched = new Set<string>();
+  for (let i = 0; i < uniqueKeys.length; i++) {
+    for (let j = i + 1; j < uniqueKeys.length; j++) {
+      const a = uniqueKeys[i];
+      const b = uniqueKeys[j];
+      if (a.topics[0].bundesland === b.topics[0].bundesland) continue;
+      const score = labelSimilarity(a.tokens, b.tokens);
+      if (score < minSimilarity) continue;
+      similar.push({ a: a.topics[0], b: b.topics[0], score: Math.round(score * 100) / 100 });
+      matched.add(a.key);
+      matched.add(b.key);
+    }
+  }
+  similar.sort((x, y) => y.score - x.score);
+
+  const stateSpecific = [...topicsByState.keys()].map((bundesland) => ({
+    bundesland,
+    topics: uniqueKeys
+      .filter((u) => !matched.has(u.key) && u.topics[0].bundesland === bundesland)
+      .flatMap((u) => u.topics),
+  }));
+
+  shared.sort((x, y) => y.nodes.length - x.nodes.length || x.topic.localeCompare(y.topic));
+  return { shared, stateSpecific, similar };
+}
+
+// --- Rendering ---
+
+/** Render a comparison as plain text or Markdown sections. */
+export function renderComparison(
+  lehrplaene: Topic[],
+  comparison: TopicComparison,
+  markdown: boolean
+): string {
+  const heading = (text: string) => (markdown ? `## ${text}` : `${text}:`);
+  const lines: string[] = [heading("Compared Lehrpläne")];
+  for (const l of lehrplaene) lines.push(`- ${l.bundesland}: ${l.label} <${l.uri}>`);
+
+  lines.push("", heading(`Shared topics (${comparison.shared.length})`));
+  for (const s of comparison.shared) {
+    const states = [...new Set(s.nodes.map((n) => n.bundesland))].join(", ");
+    lines.push(`- ${s.topic} [${states}]`);
+  }
+
+  lines.push("", heading(`Similar topics (${comparison.similar.length})`));
+  for (const m of comparison.similar) {
+    lines.push(
+      `- ${m.a.bundesland}: "${m.a.label}" ~ ${m.b.bundesland}: "${m.b.label}" (${m.score})`
+    );
+  }
+
+  for (const s of comparison.stateSpecific) {
+    lines.push("", heading(`Only in ${s.bundesland} (${s.topics.length})`));
+    for (const t of s.topics) lines.push(`- ${t.label} <${t.uri}>`);
+  }
+  return lines.join("\n");
+}
+
+/** Render a comparison as one CSV row per topic or topic pair. */
+export function comparisonToCsv(comparison: TopicComparison): string {
+  const rows: string[][] = [
+    ["category", "bundesland", "label", "uri", "matchBundesland", "matchLabel", "matchUri", "score"],
+  ];
+  for (const s of comparison.shared) {
+    for (const n of s.nodes) rows.push(["shared", n.bundesland, n.label, n.uri, "", "", "", ""]);
+  }
+  for (const m of comparison.similar) {
+    rows.push([
+      "similar", m.a.bundesland, m.a.label, m.a.uri,
+      m.b.bundesland, m.b.label, m.b.uri, String(m.score),
+    ]);
+  }
+  for (const s of comparison.stateSpecific) {
+    for (const t of s.topics) rows.push(["stateSpecific", t.bundesland, t.label, t.uri, "", "", "", ""]);
+  }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,354 @@
+import { existsSync, readFileSync, watch } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+
+// --- Typed configuration from a JSON config file, .env and the environment ---
+
+export const PROJECT_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const ENV_FILE = resolve(PROJECT_ROOT, ".env");
+// The environment as the process was started; .env values never overwrite it
+const PROCESS_ENV = { ...process.env };
+// Config file read by the last successful load, if any
+let configFile: string | undefined;
+
+const int = (min: number, defaultValue: number) => z.coerce.number().int().min(min).default(defaultValue);
+const bool = (defaultValue: boolean) =>
+  z.preprocess((v) => (v === "true" ? true : v === "false" ? false : v), z.boolean()).default(defaultValue);
+const uri = z.string().url();
+
+const MIN_API_KEY_LENGTH = 16;
+const apiKey = z
+  .string()
+  .refine((entry) => entry.slice(entry.indexOf(":") + 1).length >= MIN_API_KEY_LENGTH, {
+    message: `API key is too short. Use at least ${MIN_API_KEY_LENGTH} characters.`,
+  });
+
+const configSchema = z
+  .object({
+    sparql: z
+      .object({
+        backend: z.enum(["remote", "local"]).default("remote"),
+        endpoint: uri.optional(),
+        fallbackEndpoints: z.array(uri).default([]),
+        timeoutMs: int(1, 60_000),
+        retries: int(0, 2),
+        retryBaseMs: int(1, 250),
+        breakerThreshold: int(1, 5),
+        breakerCooldownMs: int(1, 30_000),
+        /** Files loaded into each graph by the local backend, relative to the project root */
+        localDumps: z.array(z.object({ graph: uri, files: z.array(z.string()).min(1) })).default([]),
+      })
+      .default({}),
+    graphs: z.object({
+      ontology: uri,
+      schulart: uri,
+      schulfach: uri,
+      /** Bundesland code -> graph URI */
+      states: z.record(uri).default({}),
+      discovery: bool(false),
+      validation: z.enum(["warn", "strict", "off"]).default("warn"),
+    }),
+    limits: z
+      .object({
+        sparqlQueryMaxLimit: int(1, 1000),
+        sparqlQueryTimeoutMs: int(1, 30_000),
+        maxPageSize: int(1, 500),
+        maxTreeNodes: int(1, 5000),
+        resourceMaxNodes: int(1, 1000),
+        searchMaxCandidates: int(1, 1000),
+        exportMaxNodes: int(1, 20_000),
+      })
+      .default({}),
+    cache: z.object({ maxEntries: int(0, 1000), ttlMs: int(1, 60 * 60 * 1000) }).default({}),
+    server: z
+      .object({
+        transport: z.enum(["http", "stdio"]).default("http"),
+        port: z.coerce.number().int().min(1).max(65535).default(3000),
+        /** Canonical URL of the MCP endpoint; defaults to http://localhost:<port>/mcp */
+        publicUrl: uri.optional(),
+        maxSessions: int(1, 100),
+        sessionIdleTimeoutMs: int(1, 30 * 60 * 1000),
+      })
+      .default({}),
+    auth: z
+      .object({
+        /** "name:key" entries; a key without a name is called key1, key2, ... */
+        apiKeys: z.array(apiKey).default([]),
+        oauth: z
+          .object({
+            introspectionUrl: uri.optional(),
+            clientId: z.string().optional(),
+            clientSecret: z.string().optional(),
+            authorizationServers: z.array(uri).default([]),
+          })
+          .default({}),
+        rateLimitPerMinute: int(0, 120),
+        maxConcurrentQueries: int(1, 4),
+      })
+      .default({}),
+    synonymsFile: z.string().optional(),
+  })
+  .superRefine((config, ctx) => {
+    if (config.sparql.backend === "remote" && !config.sparql.endpoint) {
+      ctx.addIssue({ code: "custom", path: ["sparql", "endpoint"], message: "Required for the remote backend" });
+    }
+    if (config.sparql.backend === "local" && config.sparql.localDumps.length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["sparql", "localDumps"],
+        message: "The local backend needs at least one dump (LOCAL_DUMP_<NAME>)",
+      });
+    }
+    if (config.auth.oauth.authorizationServers.length > 0 && !config.auth.oauth.introspectionUrl) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["auth", "oauth", "introspectionUrl"],
+        message: "Required when authorization servers are set, or tokens could not be validated",
+      });
+    }
+  });
+
+export type Config = z.infer<typeof configSchema>;
+
+// Environment variables and the config paths they override. List variables
+// are comma-separated.
+const ENV_VARS: [name: string, path: string, kind?: "list"][] = [
+  ["SPARQL_BACKEND", "sparql.backend"],
+  ["SPARQL_ENDPOINT", "sparql.endpoint"],
+  ["SPARQL_FALLBACK_ENDPOINTS", "sparql.fallbackEndpoints", "list"],
+  ["SPARQL_TIMEOUT_MS", "sparql.timeoutMs"],
+  ["SPARQL_RETRIES", "sparql.retries"],
+  ["SPARQL_RETRY_BASE_MS", "sparql.retryBaseMs"],
+  ["SPARQL_BREAKER_THRESHOLD", "sparql.breakerThreshold"],
+  ["SPARQL_BREAKER_COOLDOWN_MS", "sparql.breakerCooldownMs"],
+  ["GRAPH_ONTOLOGY", "graphs.ontology"],
+  ["GRAPH_SCHULART", "graphs.schulart"],
+  ["GRAPH_SCHULFACH", "graphs.schulfach"],
+  ["GRAPH_DISCOVERY", "graphs.discovery"],
+  ["GRAPH_VALIDATION", "graphs.validation"],
+  ["SPARQL_QUERY_MAX_LIMIT", "limits.sparqlQueryMaxLimit"],
+  ["SPARQL_QUERY_TIMEOUT_MS", "limits.sparqlQueryTimeoutMs"],
+  ["MAX_PAGE_SIZE", "limits.maxPageSize"],
+  ["MAX_TREE_NODES", "limits.maxTreeNodes"],
+  ["RESOURCE_MAX_NODES", "limits.resourceMaxNodes"],
+  ["SEARCH_MAX_CANDIDATES", "limits.searchMaxCandidates"],
+  ["EXPORT_MAX_NODES", "limits.exportMaxNodes"],
+  ["CACHE_MAX_ENTRIES", "cache.maxEntries"],
+  ["CACHE_TTL_MS", "cache.ttlMs"],
+  ["MCP_TRANSPORT", "server.transport"],
+  ["PORT", "server.port"],
+  ["PUBLIC_URL", "server.publicUrl"],
+  ["MAX_SESSIONS", "server.maxSessions"],
+  ["SESSION_IDLE_TIMEOUT_MS", "server.sessionIdleTimeoutMs"],
+  ["API_KEYS", "auth.apiKeys", "list"],
+  ["OAUTH_INTROSPECTION_URL", "auth.oauth.introspectionUrl"],
+  ["OAUTH_CLIENT_ID", "auth.oauth.clientId"],
+  ["OAUTH_CLIENT_SECRET", "auth.oauth.clientSecret"],
+  ["OAUTH_AUTHORIZATION_SERVERS", "auth.oauth.authorizationServers", "list"],
+  ["RATE_LIMIT_PER_MINUTE", "auth.rateLimitPerMinute"],
+  ["MAX_CONCURRENT_QUERIES", "auth.maxConcurrentQueries"],
+  ["SYNONYMS_FILE", "synonymsFile"],
+];
+
+/** Unescape the sequences allowed in double-quoted .env values. */
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\([nrt"\\])/g, (_, c: string) => ({ n: "\n", r: "\r", t: "\t" })[c] ?? c);
+}
+
+/**
+ * Parse a .env file: KEY=value lines with an optional `export` prefix, single
+ * or double quotes, and comments on their own line or after unquoted values.
+ */
+function parseEnvFile(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  content.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(trimmed);
+    if (!match) throw new Error(`.env line ${i + 1}: expected KEY=value`);
+    const [, key, raw] = match;
+    const quoted = /^(["'])(.*?)\1\s*(#.*)?$/.exec(raw);
+    if (quoted) {
+      values[key] = quoted[1] === '"' ? unescapeDoubleQuoted(quoted[2]) : quoted[2];
+    } else if (/^["']/.test(raw)) {
+      throw new Error(`.env line ${i + 1}: unterminated quote in ${key}`);
+    } else {
+      values[key] = raw.replace(/\s+#.*$/, "").trim();
+    }
+  });
+  return values;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    const child = node[key];
+    node = isRecord(child) ? child : (node[key] = {});
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/** The object at a dotted path of the unvalidated config, or an empty one. */
+function getRecord(target: Record<string, unknown>, path: string): Record<string, unknown> {
+  let node: unknown = target;
+  for (const key of path.split(".")) node = isRecord(node) ? node[key] : undefined;
+  return isRecord(node) ? node : {};
+}
+
+const splitList = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+
+/**
+ * Graph URI for LOCAL_DUMP_<NAME>: GRAPH_<NAME> from the environment, or the
+ * matching graph from the config file (ONTOLOGY, SCHULART, SCHULFACH, STATE_<CODE>).
+ */
+function dumpGraph(name: string, env: Record<string, string | undefined>, raw: Record<string, unknown>): string {
+  const configured = name.startsWith("STATE_")
+    ? getRecord(raw, "graphs.states")[name.slice("STATE_".length)]
+    : getRecord(raw, "graphs")[name.toLowerCase()];
+  const graph = env[`GRAPH_${name}`] ?? (typeof configured === "string" ? configured : undefined);
+  if (!graph) {
+    throw new Error(`LOCAL_DUMP_${name} is set, but GRAPH_${name} is not. See .env.example for reference.`);
+  }
+  return graph;
+}
+
+/** Apply environment variables on top of the config file contents. */
+function applyEnv(raw: Record<string, unknown>, env: Record<string, string | undefined>): void {
+  for (const [name, path, kind] of ENV_VARS) {
+    const value = env[name];
+    if (value) setPath(raw, path, kind === "list" ? splitList(value) : value);
+  }
+  for (const [key, value] of Object.entries(env)) {
+    if (key.startsWith("GRAPH_STATE_") && value) {
+      setPath(raw, "graphs.states", { ...getRecord(raw, "graphs.states"), [key.slice("GRAPH_STATE_".length)]: value });
+    }
+  }
+  const dumps = Object.entries(env)
+    .filter(([key, value]) => key.startsWith("LOCAL_DUMP_") && value)
+    .map(([key, value]) => {
+      const name = key.slice("LOCAL_DUMP_".length);
+      return { graph: dumpGraph(name, env, raw), files: splitList(value!) };
+    });
+  if (dumps.length > 0) setPath(raw, "sparql.localDumps", dumps);
+}
+
+/** "graphs.ontology (GRAPH_ONTOLOGY): Required" */
+function describeIssue(issue: z.ZodIssue): string {
+  const path = issue.path.join(".");
+  const envVar = ENV_VARS.find(([, p]) => p === path || path.startsWith(`${p}.`))?.[0];
+  return `${path}${envVar ? ` (${envVar})` : ""}: ${issue.message}`;
+}
+
+function configFilePath(env: Record<string, string | undefined>): string | undefined {
+  if (env.CONFIG_FILE) return resolve(PROJECT_ROOT, env.CONFIG_FILE);
+  const fallback = resolve(PROJECT_ROOT, "config.json");
+  return existsSync(fallback) ? fallback : undefined;
+}
+
+/**
+ * Read the configuration: the JSON file named by CONFIG_FILE (default
+ * config.json in the project root, if present), overridden by .env, overridden
+ * by the process environment.
+ */
+function loadConfig(): { config: Config; file?: string } {
+  let dotenv: Record<string, string> = {};
+  if (existsSync(ENV_FILE)) dotenv = parseEnvFile(readFileSync(ENV_FILE, "utf-8"));
+  const env = { ...dotenv, ...PROCESS_ENV };
+
+  const file = configFilePath(env);
+  let raw: Record<string, unknown> = {};
+  if (file) {
+    try {
+      const content: unknown = JSON.parse(readFileSync(file, "utf-8"));
+      if (!isRecord(content)) throw new Error("expected a JSON object");
+      raw = content;
+    } catch (e) {
+      throw new Error(`Could not read config file "${file}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  applyEnv(raw, env);
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid configuration${file ? ` (config file ${file})` : ""}:\n` +
+        parsed.error.issues.map((i) => `  ${describeIssue(i)}`).join("\n") +
+        "\nSee .env.example and config.example.json for reference."
+    );
+  }
+  return { config: parsed.data, file };
+}
+
+const initial = loadConfig();
+let current = initial.config;
+configFile = initial.file;
+const listeners: ((next: Config, previous: Config) => void)[] = [];
+
+/** The current configuration. Read it at use time, so that reloads take effect. */
+export function config(): Config {
+  return current;
+}
+
+/** Call `listener` after every successful reload. */
+export function onConfigChange(listener: (next: Config, previous: Config) => void): void {
+  listeners.push(listener);
+}
+
+/** True if the given top-level section differs between two configurations. */
+export function sectionChanged(next: Config, previous: Config, section: keyof Config): boolean {
+  return JSON.stringify(next[section]) !== JSON.stringify(previous[section]);
+}
+
+/**
+ * Re-read the configuration; an invalid one is logged and the old one kept.
+ * Listeners run even if nothing changed, e.g. to re-discover graphs.
+ */
+export function reloadConfig(): void {
+  let next: Config;
+  try {
+    ({ config: next, file: configFile } = loadConfig());
+  } catch (e) {
+    console.error(`Configuration not reloaded: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  const previous = current;
+  current = next;
+  console.error("Configuration reloaded");
+  for (const listener of listeners) {
+    try {
+      listener(next, previous);
+    } catch (e) {
+      console.error("Error applying the reloaded configuration:", e instanceof Error ? e.message : e);
+    }
+  }
+}
+
+/**
+ * Reload on SIGHUP and whenever .env or the config file changes. Directories
+ * are watched rather than files, so that editors replacing a file on save are
+ * noticed too.
+ */
+export function watchConfig(): void {
+  process.on("SIGHUP", () => reloadConfig());
+
+  const files = [ENV_FILE, configFile].filter((f): f is string => f !== undefined);
+  let timer: NodeJS.Timeout | undefined;
+  for (const dir of new Set(files.map(dirname))) {
+    const names = new Set(files.filter((f) => dirname(f) === dir).map((f) => basename(f)));
+    try {
+      watch(dir, (_, filename) => {
+        if (!filename || !names.has(filename)) return;
+        // Editors often write a file in several steps
+        clearTimeout(timer);
+        timer = setTimeout(reloadConfig, 200);
+      }).unref();
+    } catch (e) {
+      console.error(`Cannot watch ${dir} for configuration changes:`, e instanceof Error ? e.message : e);
+    }
+  }
+}
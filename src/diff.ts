@@ -0,0 +1,358 @@
+import { z } from "zod";
+import { querySparql, querySparqlUncached, type SparqlBinding } from "./sparql.js";
+import { iri, lp, selectQuery, triple, valuesIris } from "./query-builder.js";
+import { renderTable } from "./output.js";
+import { createLruCache } from "./cache.js";
+
+// --- Differences between two releases of a state graph ---
+
+// Rows asked for per query when reading a whole graph; endpoints may return
+// fewer (Virtuoso caps result sets at its ResultSetMaxRows)
+const SNAPSHOT_PAGE_SIZE = 10_000;
+
+// Preferred label languages, best first; "" is an untagged literal
+const LANGUAGE_PREFERENCE = ["de", "", "en"];
+
+// Finished diffs, so that later cursor pages do not read both graphs again.
+// Graph URIs are versioned, so a diff stays valid for as long as both exist.
+const DIFF_CACHE_ENTRIES = 16;
+const DIFF_CACHE_TTL_MS = 60 * 60 * 1000;
+const diffCache = createLruCache<GraphDiff>(DIFF_CACHE_ENTRIES, DIFF_CACHE_TTL_MS);
+
+export const CHANGE_TYPES = ["added", "removed", "relabelled", "moved"] as const;
+export type ChangeType = (typeof CHANGE_TYPES)[number];
+
+export interface LabelledUri {
+  uri: string;
+  label?: string;
+}
+
+export interface GraphChange {
+  change: ChangeType;
+  kind: "lehrplan" | "node";
+  uri: string;
+  /** Label in the new graph, or in the old one for removed entries */
+  label?: string;
+  /** Lehrplan containing the entry, or the entry itself */
+  lehrplan?: string;
+  oldLabel?: string;
+  newLabel?: string;
+  /** 'hat Teil' parents before and after a move */
+  oldParents?: LabelledUri[];
+  newParents?: LabelledUri[];
+}
+
+export type ChangeCounts = Record<ChangeType, { lehrplaene: number; nodes: number }>;
+
+export interface GraphDiff {
+  bundesland: string;
+  oldGraph: string;
+  newGraph: string;
+  summary: ChangeCounts;
+  changes: GraphChange[];
+}
+
+/** What a state graph says about its Lehrpläne and their 'hat Teil' hierarchy. */
+export interface GraphSnapshot {
+  lehrplaene: Set<string>;
+  labels: Map<string, string>;
+  /** Node -> its 'hat Teil' parents */
+  parents: Map<string, string[]>;
+  /** Every Lehrplan and every node in the hierarchy */
+  nodes: Set<string>;
+}
+
+const labelledUriSchema = z.object({ uri: z.string(), label: z.string().optional() });
+const countsSchema = z.object({ lehrplaene: z.number().int(), nodes: z.number().int() });
+
+export const diffOutputShape = {
+  bundesland: z.string(),
+  oldGraph: z.string(),
+  newGraph: z.string(),
+  summary: z.object(Object.fromEntries(CHANGE_TYPES.map((c) => [c, countsSchema])) as Record<ChangeType, typeof countsSchema>),
+  changes: z.array(
+    z.object({
+      change: z.enum(CHANGE_TYPES),
+      kind: z.enum(["lehrplan", "node"]),
+      uri: z.string(),
+      label: z.string().optional(),
+      lehrplan: z.string().optional().describe("Lehrplan containing the entry, or the entry itself"),
+      oldLabel: z.string().optional(),
+      newLabel: z.string().optional(),
+      oldParents: z.array(labelledUriSchema).optional().describe("'hat Teil' parents in the old graph"),
+      newParents: z.array(labelledUriSchema).optional().describe("'hat Teil' parents in the new graph"),
+    })
+  ),
+};
+
+/**
+ * All rows of a query over one graph, read page by page in a stable order.
+ * A capped endpoint returns short pages without saying so, so each page
+ * starts after the rows actually received and only an empty page ends the
+ * read. Pages bypass the query cache: they are large and read once.
+ */
+async function selectAll(
+  query: Omit<Parameters<typeof selectQuery>[0], "limit" | "offset">
+): Promise<Record<string, SparqlBinding>[]> {
+  const rows: Record<string, SparqlBinding>[] = [];
+  for (;;) {
+    const results = await querySparqlUncached(
+      selectQuery({ ...query, limit: SNAPSHOT_PAGE_SIZE, offset: rows.length })
+    );
+    if (results.results.bindings.length === 0) return rows;
+    rows.push(...results.results.bindings);
+  }
+}
+
+const normalizeLabel = (label: string) => label.replace(/\s+/g, " ").trim();
+
+/** Codes of the known Bundesländer whose Lehrpläne a graph holds. */
+async function graphStates(graph: string, bundeslaender: Record<string, string>): Promise<string[]> {
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?bl"],
+      from: [graph],
+      where: [triple("?s", lp("LP_0000029"), "?bl")],
+    })
+  );
+  const codeByUri = new Map(Object.entries(bundeslaender).map(([code, uri]) => [uri, code]));
+  return results.results.bindings.flatMap((b) => codeByUri.get(b.bl.value) ?? []);
+}
+
+async function fetchSnapshot(graph: string, ontologyGraph: string): Promise<GraphSnapshot> {
+  // Lehrplan and its subclasses come from the ontology graph, their instances from the state graph
+  const lehrplanClasses = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?class"],
+      from: [ontologyGraph],
+      where: [triple("?class", "rdfs:subClassOf*", lp("LP_0000438"))],
+    })
+  );
+  const lehrplaene = await selectAll({
+    distinct: true,
+    select: ["?s"],
+    from: [graph],
+    where: [
+      valuesIris("class", lehrplanClasses.results.bindings.map((b) => b.class.value)),
+      triple("?s", "rdf:type", "?class"),
+    ],
+    orderBy: ["?s"],
+  });
+  const edges = await selectAll({
+    distinct: true,
+    select: ["?parent", "?child"],
+    from: [graph],
+    where: [triple("?parent", lp("LP_0000008"), "?child"), "FILTER(isIRI(?child))"],
+    orderBy: ["?parent", "?child"],
+  });
+  const labels = await selectAll({
+    select: ["?s", "?label"],
+    from: [graph],
+    where: [triple("?s", "rdfs:label", "?label")],
+    orderBy: ["?s", "?label"],
+  });
+
+  const snapshot: GraphSnapshot = {
+    lehrplaene: new Set(lehrplaene.map((b) => b.s.value)),
+    labels: new Map(),
+    parents: new Map(),
+    nodes: new Set(),
+  };
+  for (const uri of snapshot.lehrplaene) snapshot.nodes.add(uri);
+  for (const b of edges) {
+    snapshot.nodes.add(b.parent.value);
+    snapshot.nodes.add(b.child.value);
+    snapshot.parents.set(b.child.value, [...(snapshot.parents.get(b.child.value) ?? []), b.parent.value]);
+  }
+  const rank = (lang?: string) => {
+    const index = LANGUAGE_PREFERENCE.indexOf((lang ?? "").toLowerCase());
+    return index === -1 ? LANGUAGE_PREFERENCE.length : index;
+  };
+  const ranks = new Map<string, number>();
+  for (const b of labels) {
+    if (!snapshot.nodes.has(b.s.value)) continue;
+    const r = rank(b.label["xml:lang"]);
+    if (r < (ranks.get(b.s.value) ?? Infinity)) {
+      ranks.set(b.s.value, r);
+      snapshot.labels.set(b.s.value, normalizeLabel(b.label.value));
+    }
+  }
+  return snapshot;
+}
+
+/** The Lehrplan a node belongs to, following 'hat Teil' upwards. */
+function lehrplanOf(snapshot: GraphSnapshot, uri: string): string | undefined {
+  const seen = new Set<string>();
+  const pending = [uri];
+  while (pending.length > 0) {
+    const current = pending.shift()!;
+    if (snapshot.lehrplaene.has(current)) return current;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    pending.push(...(snapshot.parents.get(current) ?? []));
+  }
+  return undefined;
+}
+
+const sameParents = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join(" ") === [...b].sort().join(" ");
+
+const compareUris = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Changes between two snapshots of a state graph, sorted by change type,
+ * Lehrpläne before their nodes, then by Lehrplan, with counts per type.
+ */
+export function compareSnapshots(
+  before: GraphSnapshot,
+  after: GraphSnapshot
+): Pick<GraphDiff, "summary" | "changes"> {
+  const changes: GraphChange[] = [];
+  const kindOf = (uri: string) =>
+    before.lehrplaene.has(uri) || after.lehrplaene.has(uri) ? ("lehrplan" as const) : ("node" as const);
+
+  for (const uri of after.nodes) {
+    if (before.nodes.has(uri)) continue;
+    changes.push({ change: "added", kind: kindOf(uri), uri, label: after.labels.get(uri), lehrplan: lehrplanOf(after, uri) });
+  }
+  for (const uri of before.nodes) {
+    const entry = { kind: kindOf(uri), uri, label: after.labels.get(uri) ?? before.labels.get(uri) };
+    if (!after.nodes.has(uri)) {
+      changes.push({ change: "removed", ...entry, lehrplan: lehrplanOf(before, uri) });
+      continue;
+    }
+    const lehrplan = lehrplanOf(after, uri);
+    const [oldLabel, newLabel] = [before.labels.get(uri), after.labels.get(uri)];
+    if (oldLabel !== newLabel) changes.push({ change: "relabelled", ...entry, lehrplan, oldLabel, newLabel });
+    const [oldParents, newParents] = [before.parents.get(uri) ?? [], after.parents.get(uri) ?? []];
+    if (!sameParents(oldParents, newParents)) {
+      changes.push({
+        change: "moved",
+        ...entry,
+        lehrplan,
+        oldParents: oldParents.map((p) => ({ uri: p, label: before.labels.get(p) })),
+        newParents: newParents.map((p) => ({ uri: p, label: after.labels.get(p) })),
+      });
+    }
+  }
+
+  changes.sort(
+    (a, b) =>
+      CHANGE_TYPES.indexOf(a.change) - CHANGE_TYPES.indexOf(b.change) ||
+      Number(a.kind === "node") - Number(b.kind === "node") ||
+      compareUris(a.lehrplan ?? "", b.lehrplan ?? "") ||
+      compareUris(a.uri, b.uri)
+  );
+
+  const summary = Object.fromEntries(
+    CHANGE_TYPES.map((change) => [change, { lehrplaene: 0, nodes: 0 }])
+  ) as ChangeCounts;
+  for (const c of changes) summary[c.change][c.kind === "lehrplan" ? "lehrplaene" : "nodes"]++;
+  return { summary, changes };
+}
+
+/**
+ * Compare two releases of a state graph: Lehrpläne and nodes added, removed
+ * or relabelled, and nodes moved to other parents in the 'hat Teil'
+ * hierarchy. Both graphs must be among `stateGraphs` and hold Lehrpläne of
+ * the same Bundesland. The result is cached per pair of graphs.
+ */
+export async function diffGraphs(
+  oldGraph: string,
+  newGraph: string,
+  ontologyGraph: string,
+  stateGraphs: string[],
+  bundeslaender: Record<string, string>
+): Promise<GraphDiff> {
+  for (const graph of [oldGraph, newGraph]) {
+    iri(graph);
+    if (!stateGraphs.includes(graph)) throw new Error(`${graph} is not a configured or discovered state graph.`);
+  }
+  if (oldGraph === newGraph) throw new Error("oldGraph and newGraph are the same graph.");
+
+  const key = JSON.stringify([oldGraph, newGraph, ontologyGraph]);
+  const hit = diffCache.get(key);
+  if (hit) return hit;
+
+  // Check the states before reading both graphs in full
+  const oldCodes = await graphStates(oldGraph, bundeslaender);
+  const newCodes = await graphStates(newGraph, bundeslaender);
+  if (oldCodes.length === 0) throw new Error(`${oldGraph} holds no Lehrpläne of a known Bundesland.`);
+  if (newCodes.length === 0) throw new Error(`${newGraph} holds no Lehrpläne of a known Bundesland.`);
+  const shared = oldCodes.filter((code) => newCodes.includes(code));
+  if (shared.length === 0) {
+    throw new Error(
+      `The graphs hold different states: ${oldGraph} has ${oldCodes.join(", ")}, ${newGraph} has ${newCodes.join(", ")}.`
+    );
+  }
+
+  const before = await fetchSnapshot(oldGraph, ontologyGraph);
+  const after = await fetchSnapshot(newGraph, ontologyGraph);
+  const diff = { bundesland: shared.join(", "), oldGraph, newGraph, ...compareSnapshots(before, after) };
+  diffCache.set(key, diff);
+  return diff;
+}
+
+/** Drop all cached diffs. */
+export function flushDiffCache(): void {
+  diffCache.clear();
+}
+
+/** One line per change type, e.g. "added: 1 Lehrplan, 42 nodes". */
+export function renderDiffSummary(diff: GraphDiff): string {
+  const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+  return [
+    `Changes in ${diff.bundesland} from <${diff.oldGraph}> to <${diff.newGraph}>:`,
+    ...CHANGE_TYPES.map(
+      (change) =>
+        `- ${change}: ${count(diff.summary[change].lehrplaene, "Lehrplan", "Lehrpläne")}, ` +
+        count(diff.summary[change].nodes, "node", "nodes")
+    ),
+  ].join("\n");
+}
+
+export const DIFF_VARS = ["change", "kind", "s", "label", "detail", "lehrplan"];
+
+/**
+ * One row per change for table, markdown and csv output. detail gives the
+ * old label of relabelled entries and the old and new parents of moves.
+ */
+export function diffRows(changes: GraphChange[]): Record<string, SparqlBinding>[] {
+  const parents = (list?: LabelledUri[]) => (list?.length ? list.map((p) => p.label ?? p.uri).join("; ") : "(none)");
+  return changes.map((c) => {
+    const detail =
+      c.change === "relabelled"
+        ? `was: ${c.oldLabel ?? "(no label)"}`
+        : c.change === "moved"
+          ? `${parents(c.oldParents)} -> ${parents(c.newParents)}`
+          : "";
+    const row: Record<string, SparqlBinding> = {
+      change: { type: "literal", value: c.change },
+      kind: { type: "literal", value: c.kind },
+      s: { type: "uri", value: c.uri },
+      label: { type: "literal", value: c.label ?? "" },
+      detail: { type: "literal", value: detail },
+    };
+    if (c.lehrplan) row.lehrplan = { type: "uri", value: c.lehrplan };
+    return row;
+  });
+}
+
+export const DIFF_FORMATS = ["markdown", "json", "csv"] as const;
+export type DiffFormat = (typeof DIFF_FORMATS)[number];
+
+/** The whole diff as a document: summary and change table, the change list as CSV, or JSON. */
+export function renderDiff(diff: GraphDiff, format: DiffFormat): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(diff, null, 2)}\n`;
+    case "csv":
+      return `${renderTable(DIFF_VARS, diffRows(diff.changes), "csv")}\r\n`;
+    case "markdown":
+      return diff.changes.length === 0
+        ? `${renderDiffSummary(diff)}\n\nNo changes.\n`
+        : `${renderDiffSummary(diff)}\n\n${renderTable(DIFF_VARS, diffRows(diff.changes), "markdown")}\n`;
+  }
+}
@@ -0,0 +1,308 @@
+import { querySparql } from "./sparql.js";
+import type { SparqlBinding } from "./sparql.js";
+import { LP_NAMESPACE, STANDARD_PREFIXES, escapeString, selectQuery, triple, valuesIris } from "./query-builder.js";
+import { csvCell } from "./output.js";
+import type { Tree, TreeNode } from "./tree.js";
+
+// --- Lehrplan export as documents (Markdown, HTML, CSV) and RDF (JSON-LD, Turtle) ---
+
+export const EXPORT_FORMATS = ["markdown", "html", "csv", "jsonld", "turtle"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown",
+  html: "text/html",
+  csv: "text/csv",
+  jsonld: "application/ld+json",
+  turtle: "text/turtle",
+};
+
+export interface ExportInput {
+  tree: Tree;
+  /** Labels of the Lehrplan's Bundesland, Schulfach, Schulart and Jahrgangsstufen */
+  facets: Record<string, string[]>;
+  graphs: string[];
+}
+
+// Subjects per VALUES block when fetching the subgraph
+const SUBGRAPH_BATCH_SIZE = 100;
+// Parts down to this depth become headings in Markdown and HTML; deeper ones list items
+const HEADING_DEPTH = 2;
+const RDF_TYPE = `${STANDARD_PREFIXES.rdf}type`;
+const RDFS_LABEL = `${STANDARD_PREFIXES.rdfs}label`;
+const XSD_STRING = `${STANDARD_PREFIXES.xsd}string`;
+
+const PREFIXES: Record<string, string> = { lp: LP_NAMESPACE, ...STANDARD_PREFIXES };
+
+const FACET_NAMES: [string, string][] = [
+  ["bundesland", "Bundesland"],
+  ["schulfach", "Schulfach"],
+  ["schulart", "Schulart"],
+  ["jahrgangsstufen", "Jahrgangsstufen"],
+];
+
+interface OutlineEntry {
+  /** Outline number, e.g. "2.1.3" */
+  number: string;
+  depth: number;
+  node: TreeNode;
+  parent: TreeNode;
+  /** Labels from the top-level part down to this node */
+  path: string[];
+}
+
+// Labels on one line, since outlines and headings are line-based
+const labelOf = (node: TreeNode) => node.label?.replace(/\s+/g, " ").trim() || "(no label)";
+
+/** All parts below the root in document order, numbered 1, 1.1, 1.1.1, ... */
+function numberedOutline(root: TreeNode): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  const visit = (parent: TreeNode, prefix: string, path: string[]) => {
+    (parent.children ?? []).forEach((node, i) => {
+      const number = prefix ? `${prefix}.${i + 1}` : String(i + 1);
+      const entry = { number, depth: path.length + 1, node, parent, path: [...path, labelOf(node)] };
+      entries.push(entry);
+      visit(node, number, entry.path);
+    });
+  };
+  visit(root, "", []);
+  return entries;
+}
+
+function truncationNote(tree: Tree): string {
+  return `Export stopped at ${tree.nodeCount} nodes; the Lehrplan has further parts. Raise EXPORT_MAX_NODES to export all of them.`;
+}
+
+function renderMarkdown({ tree, facets }: ExportInput): string {
+  const lines = [`# ${labelOf(tree.root)}`, ""];
+  for (const [key, name] of FACET_NAMES) lines.push(`- ${name}: ${facets[key]?.join(", ") || "—"}`);
+  lines.push(`- URI: <${tree.root.uri}>`);
+
+  for (const entry of numberedOutline(tree.root)) {
+    const text = `${entry.number} ${labelOf(entry.node)}`;
+    if (entry.depth <= HEADING_DEPTH) {
+      lines.push("", `${"#".repeat(entry.depth + 1)} ${text}`, "");
+    } else {
+      lines.push(`${"  ".repeat(entry.depth - HEADING_DEPTH - 1)}- ${text}`);
+    }
+  }
+  if (tree.truncated) lines.push("", `_${truncationNote(tree)}_`);
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trimEnd() + "\n";
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+/**
+ * Standalone HTML that word processors open as a document, mapping h1-h3 to
+ * their heading styles. Numbers are part of the text rather than list
+ * markers, since those are renumbered on import.
+ */
+function renderHtml({ tree, facets }: ExportInput): string {
+  const title = escapeHtml(labelOf(tree.root));
+  const body = [`<h1>${title}</h1>`, "<table>"];
+  for (const [key, name] of FACET_NAMES) {
+    body.push(`<tr><th>${name}</th><td>${escapeHtml(facets[key]?.join(", ") || "—")}</td></tr>`);
+  }
+  body.push(`<tr><th>URI</th><td>${escapeHtml(tree.root.uri)}</td></tr>`, "</table>");
+
+  const visit = (node: TreeNode, prefix: string, depth: number) => {
+    const children = node.children ?? [];
+    const listed = depth > HEADING_DEPTH && children.length > 0;
+    if (listed) body.push("<ul>");
+    children.forEach((child, i) => {
+      const number = prefix ? `${prefix}.${i + 1}` : String(i + 1);
+      const text = `${number} ${escapeHtml(labelOf(child))}`;
+      if (depth <= HEADING_DEPTH) {
+        body.push(`<h${depth + 1}>${text}</h${depth + 1}>`);
+        visit(child, number, depth + 1);
+      } else {
+        body.push(`<li>${text}`);
+        visit(child, number, depth + 1);
+        body.push("</li>");
+      }
+    });
+    if (listed) body.push("</ul>");
+  };
+  visit(tree.root, "", 1);
+  if (tree.truncated) body.push(`<p><em>${escapeHtml(truncationNote(tree))}</em></p>`);
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="de">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    "<style>",
+    "body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; max-width: 50em; margin: 2em auto; }",
+    "table { border-collapse: collapse; margin-bottom: 1.5em; }",
+    "th, td { text-align: left; padding: 0.2em 1em 0.2em 0; vertical-align: top; }",
+    "ul { list-style: none; padding-left: 1.5em; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/** One row per part, with the labels of its ancestors in level_1 ... level_n. */
+function renderCsv({ tree }: ExportInput): string {
+  const entries = numberedOutline(tree.root);
+  const levels = Math.max(0, ...entries.map((e) => e.depth));
+  const header = ["number", "depth", "uri", "label", "parent"];
+  for (let i = 1; i <= levels; i++) header.push(`level_${i}`);
+
+  const lines = [header];
+  for (const entry of entries) {
+    lines.push([
+      entry.number,
+      String(entry.depth),
+      entry.node.uri,
+      entry.node.label ?? "",
+      entry.parent.uri,
+      ...entry.path,
+      ...Array<string>(levels - entry.depth).fill(""),
+    ]);
+  }
+  return lines.map((line) => line.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// --- RDF subgraph ---
+
+interface Statement {
+  s: SparqlBinding;
+  p: SparqlBinding;
+  o: SparqlBinding;
+}
+
+function treeUris(node: TreeNode, uris: string[] = []): string[] {
+  uris.push(node.uri);
+  for (const child of node.children ?? []) treeUris(child, uris);
+  return uris;
+}
+
+/** All statements about the Lehrplan and its parts, in document order. */
+async function fetchSubgraph(tree: Tree, graphs: string[]): Promise<Statement[]> {
+  const subjects = [...new Set(treeUris(tree.root))];
+  const bySubject = new Map<string, Statement[]>();
+  for (let i = 0; i < subjects.length; i += SUBGRAPH_BATCH_SIZE) {
+    const results = await querySparql(
+      selectQuery({
+        distinct: true,
+        select: ["?s", "?p", "?o"],
+        from: graphs,
+        where: [valuesIris("s", subjects.slice(i, i + SUBGRAPH_BATCH_SIZE)), triple("?s", "?p", "?o")],
+      })
+    );
+    for (const b of results.results.bindings) {
+      const list = bySubject.get(b.s.value) ?? [];
+      list.push({ s: b.s, p: b.p, o: b.o });
+      bySubject.set(b.s.value, list);
+    }
+  }
+
+  // rdf:type and rdfs:label first, then the other predicates in a stable order
+  const rank = (p: string) => (p === RDF_TYPE ? 0 : p === RDFS_LABEL ? 1 : 2);
+  return subjects.flatMap((s) =>
+    (bySubject.get(s) ?? []).sort(
+      (a, b) =>
+        rank(a.p.value) - rank(b.p.value) ||
+        a.p.value.localeCompare(b.p.value) ||
+        a.o.value.localeCompare(b.o.value, undefined, { numeric: true })
+    )
+  );
+}
+
+/** Prefixed name for an IRI in one of the known namespaces, if it can be written as one. */
+function compactIri(uri: string): string | undefined {
+  for (const [prefix, namespace] of Object.entries(PREFIXES)) {
+    if (uri.startsWith(namespace) && /^[A-Za-z_][\w-]*$/.test(uri.slice(namespace.length))) {
+      return `${prefix}:${uri.slice(namespace.length)}`;
+    }
+  }
+  return undefined;
+}
+
+const blankNodeLabel = (value: string) => `_:${value.replace(/\W/g, "_")}`;
+
+function turtleTerm(term: SparqlBinding): string {
+  if (term.type === "uri") return compactIri(term.value) ?? `<${term.value}>`;
+  if (term.type === "bnode") return blankNodeLabel(term.value);
+  const quoted = `"${escapeString(term.value)}"`;
+  if (term["xml:lang"]) return `${quoted}@${term["xml:lang"]}`;
+  if (term.datatype && term.datatype !== XSD_STRING) {
+    return `${quoted}^^${compactIri(term.datatype) ?? `<${term.datatype}>`}`;
+  }
+  return quoted;
+}
+
+function renderTurtle(statements: Statement[]): string {
+  const lines: string[] = [];
+  let subject: string | undefined;
+  let predicate: string | undefined;
+  for (const { s, p, o } of statements) {
+    const sTerm = turtleTerm(s);
+    const pTerm = p.value === RDF_TYPE ? "a" : turtleTerm(p);
+    if (sTerm !== subject) {
+      if (subject) lines[lines.length - 1] += " .";
+      lines.push("", `${sTerm} ${pTerm} ${turtleTerm(o)}`);
+    } else if (pTerm !== predicate) {
+      lines[lines.length - 1] += " ;";
+      lines.push(`    ${pTerm} ${turtleTerm(o)}`);
+    } else {
+      lines[lines.length - 1] += ` , ${turtleTerm(o)}`;
+    }
+    subject = sTerm;
+    predicate = pTerm;
+  }
+  if (subject) lines[lines.length - 1] += " .";
+
+  const text = lines.join("\n");
+  const used = Object.entries(PREFIXES).filter(([prefix]) => new RegExp(`[\\s^]${prefix}:`).test(text));
+  return used.map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`).join("\n") + `\n${text}\n`;
+}
+
+function jsonLdValue(term: SparqlBinding): Record<string, string> {
+  if (term.type === "uri") return { "@id": term.value };
+  if (term.type === "bnode") return { "@id": blankNodeLabel(term.value) };
+  if (term["xml:lang"]) return { "@value": term.value, "@language": term["xml:lang"] };
+  if (term.datatype && term.datatype !== XSD_STRING) return { "@value": term.value, "@type": term.datatype };
+  return { "@value": term.value };
+}
+
+function renderJsonLd(statements: Statement[]): string {
+  const nodes = new Map<string, Record<string, unknown>>();
+  for (const { s, p, o } of statements) {
+    const id = jsonLdValue(s)["@id"];
+    const node = nodes.get(id) ?? { "@id": id };
+    nodes.set(id, node);
+    const key = p.value === RDF_TYPE ? "@type" : compactIri(p.value) ?? p.value;
+    const value = p.value === RDF_TYPE ? compactIri(o.value) ?? o.value : jsonLdValue(o);
+    node[key] = [...((node[key] as unknown[]) ?? []), value];
+  }
+  return JSON.stringify({ "@context": PREFIXES, "@graph": [...nodes.values()] }, null, 2) + "\n";
+}
+
+/**
+ * Render an exported Lehrplan. Markdown and HTML are numbered outlines with
+ * the Lehrplan's metadata; CSV is one row per part; JSON-LD and Turtle hold
+ * every statement about the Lehrplan and its parts.
+ */
+export async function renderExport(format: ExportFormat, input: ExportInput): Promise<string> {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(input);
+    case "html":
+      return renderHtml(input);
+    case "csv":
+      return renderCsv(input);
+    case "jsonld":
+      return renderJsonLd(await fetchSubgraph(input.tree, input.graphs));
+    case "turtle":
+      return renderTurtle(await fetchSubgraph(input.tree, input.graphs));
+  }
+}
@@ -0,0 +1,148 @@
+import { querySparql } from "./sparql.js";
+import { LP_NAMESPACE, lp, selectQuery, triple, valuesIris } from "./query-builder.js";
+import { fetchLabels } from "./labels.js";
+
+// --- Jahrgangsstufen: grade levels and the school years they cover ---
+
+export const MIN_STUFE = 1;
+export const MAX_STUFE = 13;
+
+export interface Grade {
+  uri: string;
+  label: string;
+  /** First and last school year covered, e.g. 5 and 6 for "Jahrgangsstufen 5/6" */
+  min: number;
+  max: number;
+}
+
+export interface GradeCoverage {
+  /** Labels of the Lehrplan's Jahrgangsstufen, in school order */
+  labels: string[];
+  /** Range of school years covered; absent if no grade could be placed */
+  min?: number;
+  max?: number;
+}
+
+// Phases named instead of numbered, checked before any digits in the label
+// ("Qualifikationsphase 1" is school year 12, not 1). Einführungsphase and
+// Qualifikationsphase follow the nine-year Gymnasium.
+const PHASES: [RegExp, number, number][] = [
+  [/\bQ(ualifikationsphase)?\s*1\b/i, 12, 12],
+  [/\bQ(ualifikationsphase)?\s*2\b/i, 13, 13],
+  [/qualifikationsphase/i, 12, 13],
+  [/einführungsphase|\bEF\b/i, 11, 11],
+  [/eingangsphase/i, 1, 2],
+];
+
+// School years in a label: standalone numbers, so "G8" or "5a" do not count
+const YEAR = /(?<![\p{L}\p{N}])\d{1,2}(?![\p{L}\p{N}])/gu;
+
+// Grades without a usable label are numbered in the ontology, LP_2000001 to LP_2000013
+const NUMBERED_GRADE = new RegExp(`^${LP_NAMESPACE}LP_20000(\\d\\d)$`);
+
+/**
+ * School years covered by a grade, from its label: a phase name, a single
+ * year ("Jahrgangsstufe 7") or a range ("Klassen 5/6", "5-6", "7 bis 9").
+ */
+export function gradeRange(uri: string, label?: string): { min: number; max: number } | undefined {
+  if (label) {
+    const phase = PHASES.find(([pattern]) => pattern.test(label));
+    if (phase) return { min: phase[1], max: phase[2] };
+    const years = (label.match(YEAR) ?? []).map(Number).filter((n) => n >= MIN_STUFE && n <= MAX_STUFE);
+    if (years.length > 0) return { min: Math.min(...years), max: Math.max(...years) };
+  }
+  const numbered = NUMBERED_GRADE.exec(uri);
+  const year = numbered ? Number(numbered[1]) : NaN;
+  return year >= MIN_STUFE && year <= MAX_STUFE ? { min: year, max: year } : undefined;
+}
+
+const bySchoolYear = (a: Grade, b: Grade) => a.min - b.min || a.max - b.max || a.label.localeCompare(b.label);
+
+/**
+ * The Jahrgangsstufen used by Lehrpläne in the given graphs, with labels from
+ * the ontology, in school order. Grades whose school years cannot be
+ * determined are left out.
+ */
+export async function fetchGrades(graphs: string[]): Promise<Grade[]> {
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?stufe"],
+      from: graphs,
+      where: [triple("?s", lp("LP_0000026"), "?stufe"), "FILTER(isIRI(?stufe))"],
+    })
+  );
+  const uris = results.results.bindings.map((b) => b.stufe.value);
+  const labels = await fetchLabels(uris, graphs);
+  const grades: Grade[] = [];
+  for (const uri of uris) {
+    const range = gradeRange(uri, labels.get(uri));
+    if (range) grades.push({ uri, label: labels.get(uri) ?? `Jahrgangsstufe ${range.min}`, ...range });
+  }
+  return grades.sort(bySchoolYear);
+}
+
+/** URIs of the grades sharing at least one school year with min..max. */
+export function gradesOverlapping(grades: Grade[], min: number, max: number): string[] {
+  return grades.filter((g) => g.min <= max && g.max >= min).map((g) => g.uri);
+}
+
+/** A range of school years as text, e.g. "7" or "5–6". */
+export function formatStufen(min: number, max: number): string {
+  return min === max ? String(min) : `${min}–${max}`;
+}
+
+/**
+ * Combine the Jahrgangsstufen assigned to each Lehrplan, as pairs of Lehrplan
+ * and grade URI, into its labels and the school years they cover together.
+ * Grades missing from `grades` are listed by URI and do not extend the range.
+ */
+export function gradeCoverage(
+  lehrplaene: string[],
+  grades: Grade[],
+  assignments: [lehrplan: string, grade: string][]
+): Map<string, GradeCoverage> {
+  const known = new Map(grades.map((g) => [g.uri, g]));
+  const gradesOf = new Map<string, Grade[]>();
+  const unknown = new Map<string, string[]>();
+  for (const [lehrplan, stufe] of assignments) {
+    const grade = known.get(stufe);
+    if (grade) gradesOf.set(lehrplan, [...(gradesOf.get(lehrplan) ?? []), grade]);
+    else unknown.set(lehrplan, [...(unknown.get(lehrplan) ?? []), stufe]);
+  }
+
+  const coverage = new Map<string, GradeCoverage>();
+  for (const uri of lehrplaene) {
+    const own = (gradesOf.get(uri) ?? []).sort(bySchoolYear);
+    const entry: GradeCoverage = { labels: [...own.map((g) => g.label), ...(unknown.get(uri) ?? [])] };
+    if (own.length > 0) {
+      entry.min = Math.min(...own.map((g) => g.min));
+      entry.max = Math.max(...own.map((g) => g.max));
+    }
+    coverage.set(uri, entry);
+  }
+  return coverage;
+}
+
+/** The Jahrgangsstufen of each Lehrplan and the school years they cover together. */
+export async function fetchGradeCoverage(
+  lehrplaene: string[],
+  grades: Grade[],
+  graphs: string[]
+): Promise<Map<string, GradeCoverage>> {
+  if (lehrplaene.length === 0) return new Map();
+
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?s", "?stufe"],
+      from: graphs,
+      where: [valuesIris("s", lehrplaene), triple("?s", lp("LP_0000026"), "?stufe")],
+    })
+  );
+  return gradeCoverage(
+    lehrplaene,
+    grades,
+    results.results.bindings.map((b): [string, string] => [b.s.value, b.stufe.value])
+  );
+}
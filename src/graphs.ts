@@ -0,0 +1,171 @@
+import { backend } from "./sparql.js";
+import { fromClauses, lp, selectQuery, triple } from "./query-builder.js";
+
+// --- Startup validation and discovery of the named graphs ---
+
+// Graph checks go straight to the backend, so they see the endpoint as it is now
+const GRAPH_CHECK_TIMEOUT_MS = 30_000;
+
+export interface GraphConfig {
+  ontologyGraph: string;
+  infraGraphs: string[];
+  /** Bundesland code -> graph URI */
+  stateGraphs: Record<string, string>;
+  /** Bundesland code -> Bundesland URI in the ontology */
+  bundeslaender: Record<string, string>;
+}
+
+export interface GraphIssue {
+  /** Errors make tools return wrong or empty results; warnings may be intended */
+  severity: "error" | "warning";
+  message: string;
+}
+
+interface StateGraphCandidate {
+  graph: string;
+  code: string;
+  lehrplaene: number;
+}
+
+/** The date in a versioned graph URI such as http://sn-2026-01-29/, if any. */
+function graphDate(uri: string): string | undefined {
+  return /\d{4}-\d{2}-\d{2}/.exec(uri)?.[0];
+}
+
+/** Newest dated graph first; undated graphs last; then by number of Lehrpläne. */
+function newestFirst(a: StateGraphCandidate, b: StateGraphCandidate): number {
+  const da = graphDate(a.graph) ?? "";
+  const db = graphDate(b.graph) ?? "";
+  return da === db ? b.lehrplaene - a.lehrplaene : db.localeCompare(da);
+}
+
+/** Named graphs at the endpoint that hold Lehrpläne, by Bundesland. */
+async function findStateGraphs(bundeslaender: Record<string, string>): Promise<StateGraphCandidate[]> {
+  const result = await backend.select(
+    selectQuery({
+      select: ["?g", "?bl", "(COUNT(DISTINCT ?s) AS ?n)"],
+      from: [],
+      where: [`GRAPH ?g { ${triple("?s", lp("LP_0000029"), "?bl")} }`],
+      groupBy: ["?g", "?bl"],
+    }),
+    { timeoutMs: GRAPH_CHECK_TIMEOUT_MS }
+  );
+  const codeByUri = new Map(Object.entries(bundeslaender).map(([code, uri]) => [uri, code]));
+  return result.results.bindings.flatMap((b) => {
+    const code = codeByUri.get(b.bl.value);
+    return code ? [{ graph: b.g.value, code, lehrplaene: Number(b.n.value) }] : [];
+  });
+}
+
+/**
+ * Map each Bundesland with Lehrpläne at the endpoint to the graph holding
+ * them. When several graphs hold the same state, the one with the newest date
+ * in its URI wins.
+ */
+export async function discoverStateGraphs(
+  bundeslaender: Record<string, string>
+): Promise<Record<string, string>> {
+  const discovered: Record<string, string> = {};
+  for (const candidate of (await findStateGraphs(bundeslaender)).sort(newestFirst)) {
+    discovered[candidate.code] ??= candidate.graph;
+  }
+  return discovered;
+}
+
+async function hasTriples(graph: string): Promise<boolean> {
+  const result = await backend.select(`ASK ${fromClauses([graph])} WHERE { ?s ?p ?o }`, {
+    timeoutMs: GRAPH_CHECK_TIMEOUT_MS,
+  });
+  return result.boolean === true;
+}
+
+async function ontologyVersions(graph: string): Promise<string[]> {
+  const result = await backend.select(
+    selectQuery({
+      distinct: true,
+      select: ["?version"],
+      from: [graph],
+      where: [triple("?ontology", "rdf:type", "owl:Ontology"), triple("?ontology", "owl:versionIRI", "?version")],
+    }),
+    { timeoutMs: GRAPH_CHECK_TIMEOUT_MS }
+  );
+  return result.results.bindings.map((b) => b.version.value);
+}
+
+const withoutTrailingSlash = (uri: string) => uri.replace(/\/+$/, "");
+
+/**
+ * Check the graph configuration against the endpoint: unknown Bundesland
+ * codes, empty or missing graphs, state graphs holding another state's
+ * Lehrpläne, and version mismatches (a newer graph for a state, or an
+ * ontology graph declaring another version than its URI).
+ */
+export async function validateGraphs(config: GraphConfig): Promise<GraphIssue[]> {
+  const issues: GraphIssue[] = [];
+  const known = Object.keys(config.bundeslaender);
+
+  for (const code of Object.keys(config.stateGraphs)) {
+    if (!config.bundeslaender[code]) {
+      issues.push({
+        severity: "error",
+        message: `GRAPH_STATE_${code}: unknown Bundesland code "${code}". Use one of ${known.join(", ")}.`,
+      });
+    }
+  }
+
+  try {
+    const graphs = [...new Set([...config.infraGraphs, ...Object.values(config.stateGraphs)])];
+    const present = await Promise.all(graphs.map(hasTriples));
+    const missing = new Set(graphs.filter((_, i) => !present[i]));
+    for (const graph of missing) {
+      const codes = Object.keys(config.stateGraphs).filter((code) => config.stateGraphs[code] === graph);
+      const name = codes.length ? `State graph ${graph} (${codes.join(", ")})` : `Graph ${graph}`;
+      issues.push({ severity: "error", message: `${name} is empty or missing at the endpoint.` });
+    }
+
+    const candidates = await findStateGraphs(config.bundeslaender);
+    for (const [code, graph] of Object.entries(config.stateGraphs)) {
+      if (!config.bundeslaender[code] || missing.has(graph)) continue;
+
+      const own = candidates.some((c) => c.graph === graph && c.code === code);
+      if (!own) {
+        const others = [...new Set(candidates.filter((c) => c.graph === graph).map((c) => c.code))];
+        issues.push({
+          severity: "error",
+          message: others.length
+            ? `GRAPH_STATE_${code} points to ${graph}, which holds Lehrpläne for ${others.join(", ")}, not ${code}.`
+            : `GRAPH_STATE_${code} points to ${graph}, which holds no Lehrpläne for ${code}.`,
+        });
+      }
+
+      const date = graphDate(graph);
+      const newer = candidates
+        .filter((c) => c.code === code && c.graph !== graph)
+        .sort(newestFirst)
+        .find((c) => date && (graphDate(c.graph) ?? "") > date);
+      if (newer) {
+        issues.push({
+          severity: "warning",
+          message: `GRAPH_STATE_${code} points to ${graph}, but the endpoint has a newer graph for ${code}: ${newer.graph}.`,
+        });
+      }
+    }
+
+    if (!missing.has(config.ontologyGraph)) {
+      const versions = await ontologyVersions(config.ontologyGraph);
+      const configured = withoutTrailingSlash(config.ontologyGraph);
+      if (versions.length > 0 && !versions.some((v) => withoutTrailingSlash(v) === configured)) {
+        issues.push({
+          severity: "warning",
+          message: `GRAPH_ONTOLOGY is ${config.ontologyGraph}, but the graph declares ontology version ${versions.join(", ")}.`,
+        });
+      }
+    }
+  } catch (e) {
+    issues.push({
+      severity: "error",
+      message: `Could not check the graphs at the endpoint: ${e instanceof Error ? e.message : String(e)}`,
+    });
+  }
+  return issues;
+}
@@ -1,40 +1,155 @@
 #!/usr/bin/env node
 
-import { createServer } from "node:http";
-import { randomUUID } from "node:crypto";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  McpServer,
+  ResourceTemplate,
+  type CompleteResourceTemplateCallback,
+  type RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type {
+  CallToolResult,
+  ListResourcesResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import { z } from "zod";
 import {
   querySparql,
-  formatResults,
-  requireEnv,
-  SPARQL_ENDPOINT,
+  constructSparql,
+  cacheStats,
+  flushCache,
+  withCancellation,
+  backend,
 } from "./sparql.js";
+import {
+  LP_NAMESPACE,
+  fromClauses,
+  iri,
+  lp,
+  selectQuery,
+  triple,
+  valuesIris,
+} from "./query-builder.js";
+import { guardQuery } from "./query-guard.js";
+import { normalizeName, pickEntry, type VocabularyEntry, type VocabularyKind } from "./resolve.js";
+import {
+  OUTPUT_FORMATS,
+  formatArg,
+  renderTable,
+  resultsOutputShape,
+  toStructured,
+  toolResult,
+} from "./output.js";
+import {
+  decodeCursor,
+  encodeCursor,
+  nextPageNote,
+  pageArgs,
+  pageOutputShape,
+  paginate,
+} from "./pagination.js";
+import { fetchLabels } from "./labels.js";
+import {
+  candidateQuery,
+  parseSearchQuery,
+  rankHits,
+  searchOutputShape,
+  searchStrategy,
+} from "./search.js";
+import {
+  buildTree,
+  fetchLeaves,
+  fetchPaths,
+  hasCollapsedNodes,
+  renderOutline,
+  treeNodeSchema,
+  treeToRows,
+  type Tree,
+} from "./tree.js";
+import {
+  compareTopics,
+  comparisonOutputShape,
+  comparisonToCsv,
+  fetchTopics,
+  renderComparison,
+  type Topic,
+} from "./compare.js";
+import {
+  MAX_STUFE,
+  MIN_STUFE,
+  fetchGradeCoverage,
+  fetchGrades,
+  formatStufen,
+  gradesOverlapping,
+} from "./grades.js";
+import {
+  describeOntology,
+  fetchOntologyClasses,
+  isSubclassOf,
+  ontologyCheatSheet,
+  ontologyOutputShape,
+  ontologyRows,
+  renderClassHierarchy,
+  resolveClass,
+  type OntologyDescription,
+} from "./ontology.js";
+import { EXPORT_FORMATS, EXPORT_MIME_TYPES, renderExport, type ExportFormat } from "./export.js";
+import {
+  DIFF_FORMATS,
+  DIFF_VARS,
+  diffGraphs,
+  diffOutputShape,
+  diffRows,
+  flushDiffCache,
+  renderDiff,
+  renderDiffSummary,
+  type DiffFormat,
+} from "./diff.js";
+import type { SparqlBinding } from "./sparql.js";
+import { discoverStateGraphs, validateGraphs } from "./graphs.js";
+import { createSessionManager } from "./sessions.js";
+import { authOptionsFromConfig, createHttpAuth } from "./auth.js";
+import { config, onConfigChange, sectionChanged, watchConfig, type Config } from "./config.js";
+import { runAsClient } from "./limits.js";
+import { createCollected, observeToolCall, renderMetrics } from "./metrics.js";
+import {
+  SparqlSyntaxError,
+  SparqlTimeoutError,
+  SparqlUnavailableError,
+} from "./sparql-errors.js";
 
 // --- Named Graphs ---
 
 // Infrastructure graphs (always included in queries)
-const INFRA_GRAPHS = [
-  requireEnv("GRAPH_ONTOLOGY"),
-  requireEnv("GRAPH_SCHULART"),
-  requireEnv("GRAPH_SCHULFACH"),
-];
+let INFRA_GRAPHS: string[] = [];
 
-// State graphs — discovered dynamically from GRAPH_STATE_<CODE> env vars
-const STATE_GRAPHS: Record<string, string> = {};
-for (const [key, value] of Object.entries(process.env)) {
-  if (key.startsWith("GRAPH_STATE_") && value) {
-    const code = key.slice("GRAPH_STATE_".length);
-    STATE_GRAPHS[code] = value;
-  }
-}
+// State graphs by Bundesland code: GRAPH_STATE_<CODE> entries, plus those
+// found at the endpoint when graph discovery is enabled
+let STATE_GRAPHS: Record<string, string> = {};
+let discoveredGraphs: Record<string, string> = {};
 
-const ALL_GRAPHS = [...INFRA_GRAPHS, ...Object.values(STATE_GRAPHS)];
+let ALL_GRAPHS: string[] = [];
 
-function fromClauses(graphs: string[]): string {
-  return graphs.map((g) => `FROM <${g}>`).join("\n");
+/** Recompute the graph lists from the configuration and the last discovery. */
+function applyGraphConfig(): void {
+  const { graphs } = config();
+  INFRA_GRAPHS = [graphs.ontology, graphs.schulart, graphs.schulfach];
+  STATE_GRAPHS = { ...graphs.states };
+  for (const [code, graph] of Object.entries(discoveredGraphs)) STATE_GRAPHS[code] ??= graph;
+  ALL_GRAPHS = [...INFRA_GRAPHS, ...Object.values(STATE_GRAPHS)];
 }
+applyGraphConfig();
+
+// Upper bound for the maxNodes argument of get_lehrplan_tree. Part of the tool
+// schema, so a changed value takes effect on restart.
+const MAX_TREE_NODES = config().limits.maxTreeNodes;
 
 /** Return only the graphs relevant for a given Bundesland code. */
 function graphsForBundesland(code: string): string[] {
@@ -110,60 +225,217 @@ function resolveBundesland(input: string): { code: string; uri: string } {
 
 // --- SPARQL name resolution helpers ---
 
-async function resolveSchulfachUri(
-  name: string,
+const VOCABULARY_PREDICATE: Record<VocabularyKind, string> = {
+  schulfach: "LP_0000537",
+  schulart: "LP_0000812",
+};
+
+/** All labels of the Schulfächer or Schularten used by a Bundesland's Lehrpläne. */
+async function loadVocabulary(
+  kind: VocabularyKind,
   bundeslandUri: string,
   graphs: string[]
-): Promise<string> {
-  const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT ?uri
-${fromClauses(graphs)}
-WHERE {
-  ?s lp:LP_0000537 ?uri .
-  ?uri rdfs:label ?l .
-  ?s lp:LP_0000029 <${bundeslandUri}> .
-  FILTER(LCASE(STR(?l)) = "${name.toLowerCase()}")
-}
-LIMIT 1`;
+): Promise<VocabularyEntry[]> {
+  const query = selectQuery({
+    distinct: true,
+    select: ["?uri", "?label"],
+    from: graphs,
+    where: [
+      triple("?s", lp(VOCABULARY_PREDICATE[kind]), "?uri"),
+      triple("?uri", "rdfs:label", "?label"),
+      triple("?s", lp("LP_0000029"), iri(bundeslandUri)),
+    ],
+  });
 
   const results = await querySparql(query);
-  if (results.results.bindings.length === 0) {
-    throw new Error(
-      `Schulfach "${name}" not found for this Bundesland. Use list_schulfaecher to see available subjects.`
-    );
+  return results.results.bindings.map((b) => ({ uri: b.uri.value, label: b.label.value }));
+}
+
+// Vocabularies per kind, Bundesland and graph set. They only change with the
+// graph versions, so they are kept until the cache is flushed.
+const vocabularies = new Map<string, Promise<VocabularyEntry[]>>();
+
+function fetchVocabulary(
+  kind: VocabularyKind,
+  bundeslandUri: string,
+  graphs: string[]
+): Promise<VocabularyEntry[]> {
+  const key = `${kind}|${bundeslandUri}|${graphs.join(" ")}`;
+  let entries = vocabularies.get(key);
+  if (!entries) {
+    entries = loadVocabulary(kind, bundeslandUri, graphs).catch((e) => {
+      vocabularies.delete(key);
+      throw e;
+    });
+    vocabularies.set(key, entries);
   }
-  return results.results.bindings[0].uri.value;
+  return entries;
 }
 
-async function resolveSchulartUri(
-  name: string,
+/** Load the Schulfach and Schulart vocabularies of every configured state. */
+async function preloadVocabularies(): Promise<void> {
+  for (const code of Object.keys(STATE_GRAPHS)) {
+    const uri = BUNDESLAND_URI[code];
+    if (!uri) continue;
+    for (const kind of ["schulfach", "schulart"] as const) {
+      try {
+        await fetchVocabulary(kind, uri, graphsForBundesland(code));
+      } catch (e) {
+        console.error(`Could not preload ${kind} vocabulary for ${code}:`, e instanceof Error ? e.message : e);
+      }
+    }
+  }
+}
+
+/** Query for the Schulfächer of a Bundesland with one German label each. */
+function schulfaecherQuery(bl: { code: string; uri: string }): string {
+  return selectQuery({
+    distinct: true,
+    select: ["?uri", "(SAMPLE(?l) AS ?label)"],
+    from: graphsForBundesland(bl.code),
+    where: [
+      triple("?s", lp("LP_0000537"), "?uri"),
+      triple("?uri", "rdfs:label", "?l"),
+      triple("?s", lp("LP_0000029"), iri(bl.uri)),
+      `FILTER(lang(?l) = "de")`,
+    ],
+    groupBy: ["?uri"],
+    orderBy: ["?label"],
+  });
+}
+
+/** Query for the Schularten of a Bundesland with one label each. */
+function schulartenQuery(bl: { code: string; uri: string }): string {
+  return selectQuery({
+    distinct: true,
+    select: ["?uri", "(SAMPLE(?l) AS ?label)"],
+    from: graphsForBundesland(bl.code),
+    where: [
+      triple("?s", lp("LP_0000812"), "?uri"),
+      triple("?uri", "rdfs:label", "?l"),
+      triple("?s", lp("LP_0000029"), iri(bl.uri)),
+    ],
+    groupBy: ["?uri"],
+    orderBy: ["?label"],
+  });
+}
+
+/**
+ * Resolve a Schulfach or Schulart to its URI. Accepts a URI directly, or a
+ * name matched fuzzily ("Bio", "Mathe", "Oberschule (Sachsen)", typos).
+ */
+async function resolveVocabularyUri(
+  kind: VocabularyKind,
+  input: string,
   bundeslandUri: string,
   graphs: string[]
 ): Promise<string> {
-  const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT ?uri
-${fromClauses(graphs)}
-WHERE {
-  ?s lp:LP_0000812 ?uri .
-  ?uri rdfs:label ?l .
-  ?s lp:LP_0000029 <${bundeslandUri}> .
-  FILTER(LCASE(STR(?l)) = "${name.toLowerCase()}")
-}
-LIMIT 1`;
+  const trimmed = input.trim();
+  if (/^https?:\/\//.test(trimmed)) {
+    iri(trimmed);
+    return trimmed;
+  }
+  const entries = await fetchVocabulary(kind, bundeslandUri, graphs);
+  return pickEntry(kind, trimmed, entries).uri;
+}
+
+// --- Lehrplan lookup ---
+
+interface LehrplanFilter {
+  bundesland: { code: string; uri: string };
+  schulfach?: string;
+  schulart?: string;
+  /** School years; matches Lehrpläne with a Jahrgangsstufe overlapping the range */
+  stufen?: { min: number; max: number };
+}
+
+/**
+ * School-year range from the grade arguments of find_lehrplaene and search:
+ * a single jahrgangsstufe, or minStufe and/or maxStufe.
+ */
+function stufenRange(args: {
+  jahrgangsstufe?: number;
+  minStufe?: number;
+  maxStufe?: number;
+}): { min: number; max: number } | undefined {
+  const { jahrgangsstufe, minStufe, maxStufe } = args;
+  if (jahrgangsstufe !== undefined) {
+    if (minStufe !== undefined || maxStufe !== undefined) {
+      throw new Error("Use either jahrgangsstufe or minStufe/maxStufe, not both.");
+    }
+    return { min: jahrgangsstufe, max: jahrgangsstufe };
+  }
+  if (minStufe === undefined && maxStufe === undefined) return undefined;
+  const range = { min: minStufe ?? MIN_STUFE, max: maxStufe ?? MAX_STUFE };
+  if (range.min > range.max) {
+    throw new Error(`minStufe (${range.min}) must not be greater than maxStufe (${range.max}).`);
+  }
+  return range;
+}
+
+/**
+ * Build the query that finds Lehrpläne of one Bundesland matching the given
+ * filters, selecting ?s and ?label. Shared by find_lehrplaene and
+ * compare_lehrplaene so that both resolve curricula the same way.
+ */
+async function lehrplanQuery(
+  filter: LehrplanFilter,
+  page: { limit?: number; offset?: number } = {}
+): Promise<string> {
+  const bl = filter.bundesland;
+  const graphs = graphsForBundesland(bl.code);
 
-  const results = await querySparql(query);
-  if (results.results.bindings.length === 0) {
-    throw new Error(
-      `Schulart "${name}" not found for this Bundesland. Use list_schularten to see available school types.`
+  const filters = [triple("?s", lp("LP_0000029"), iri(bl.uri))];
+
+  if (filter.schulfach) {
+    const sfUri = await resolveVocabularyUri("schulfach", filter.schulfach, bl.uri, graphs);
+    filters.push(triple("?s", lp("LP_0000537"), iri(sfUri)));
+  }
+  if (filter.schulart) {
+    const saUri = await resolveVocabularyUri("schulart", filter.schulart, bl.uri, graphs);
+    filters.push(triple("?s", lp("LP_0000812"), iri(saUri)));
+  }
+  if (filter.stufen) {
+    const grades = await fetchGrades(graphs);
+    filters.push(
+      valuesIris("stufe", gradesOverlapping(grades, filter.stufen.min, filter.stufen.max)),
+      triple("?s", lp("LP_0000026"), "?stufe")
     );
   }
-  return results.results.bindings[0].uri.value;
+
+  return selectQuery({
+    distinct: true,
+    select: ["?s", "?label"],
+    from: graphs,
+    where: [
+      triple("?lpsubclass", "rdfs:subClassOf*", lp("LP_0000438")),
+      triple("?s", "rdf:type", "?lpsubclass"),
+      triple("?s", "rdfs:label", "?label"),
+      ...filters,
+    ],
+    orderBy: ["?label", "?s"],
+    limit: page.limit,
+    offset: page.offset,
+  });
 }
 
 // --- Error wrapper ---
 
+/** Error text for an exception, with advice on what to do about SPARQL failures. */
+function errorMessage(e: unknown): string {
+  if (e instanceof SparqlTimeoutError) {
+    return `${e.message} Narrow the request (more specific filters, a lower depth, limit or maxNodes) or try again later.`;
+  }
+  if (e instanceof SparqlSyntaxError) {
+    return `${e.message} Check the query syntax and that every prefix used is declared.`;
+  }
+  if (e instanceof SparqlUnavailableError) {
+    const when = e.retryAfterSeconds ? `in about ${e.retryAfterSeconds} s` : "in a moment";
+    return `${e.message} The triple store is not reachable right now; try again ${when}.`;
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
 function toolError(msg: string) {
   return {
     content: [{ type: "text" as const, text: msg }],
@@ -171,453 +443,2064 @@ function toolError(msg: string) {
   };
 }
 
-// --- MCP Server ---
+// Classes and properties of the ontology with their use in the state graphs,
+// for describe_ontology and the sparql_query cheat-sheet. Kept per graph set
+// until the cache is flushed, like the vocabularies.
+let ontologyDescription: { key: string; description: Promise<OntologyDescription> } | undefined;
+let cheatSheet = "";
 
-const server = new McpServer({
-  name: "mem-ontology-server",
-  version: "0.0.1",
-});
-
-// Tool 1: Execute arbitrary SPARQL queries
-server.registerTool(
-  "sparql_query",
-  {
-    title: "SPARQL Query",
-    description:
-      "Execute a SPARQL query against the MEM ontology triple store. " +
-      "PREFIX lp: <https://w3id.org/lehrplan/ontology/> is available. " +
-      "You MUST include FROM clauses for the graphs you need. " +
-      "Available graphs: " +
-      [
-        ...INFRA_GRAPHS.map((g) => `<${g}>`),
-        ...Object.entries(STATE_GRAPHS).map(([code, g]) => `${code}: <${g}>`),
-      ].join(", "),
-    inputSchema: {
-      query: z.string().describe("The full SPARQL SELECT query to execute"),
-    },
-  },
-  async ({ query }) => {
-    try {
-      const results = await querySparql(query);
-      return { content: [{ type: "text", text: formatResults(results) }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
+function fetchOntologyDescription(): Promise<OntologyDescription> {
+  const key = JSON.stringify([INFRA_GRAPHS[0], STATE_GRAPHS]);
+  if (ontologyDescription?.key !== key) {
+    const description = describeOntology(INFRA_GRAPHS[0], STATE_GRAPHS).catch((e) => {
+      if (ontologyDescription?.description === description) ontologyDescription = undefined;
+      throw e;
+    });
+    ontologyDescription = { key, description };
   }
-);
+  return ontologyDescription.description;
+}
 
-// Tool 2: List available Bundesländer
-server.registerTool(
-  "list_bundeslaender",
-  {
-    title: "List Bundesländer",
-    description:
-      "List all German federal states (Bundesländer) available in the ontology with their codes and URIs.",
-    inputSchema: {},
-  },
-  async () => {
-    try {
-      const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?uri ?label
-${fromClauses(ALL_GRAPHS)}
-WHERE {
-  ?s lp:LP_0000029 ?uri .
-  ?uri rdfs:label ?label .
-  FILTER(lang(?label) = "de")
-}
-ORDER BY ?label`;
-
-      const results = await querySparql(query);
-      return { content: [{ type: "text", text: formatResults(results) }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
+/** Describe the ontology and put the cheat-sheet into the sparql_query description. */
+async function loadCheatSheet(): Promise<void> {
+  try {
+    const sheet = ontologyCheatSheet(await fetchOntologyDescription());
+    if (sheet === cheatSheet) return;
+    cheatSheet = sheet;
+    updateOpenServers(false);
+  } catch (e) {
+    console.error("Could not describe the ontology for the sparql_query cheat-sheet:", errorMessage(e));
   }
-);
+}
 
-// Tool 3: List Schulfächer for a Bundesland
-server.registerTool(
-  "list_schulfaecher",
-  {
-    title: "List Schulfächer",
-    description:
-      "List all school subjects (Schulfächer) for a Bundesland. " +
-      "Accepts a state code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...).",
-    inputSchema: {
-      bundesland: z
-        .string()
-        .describe(
-          "State code (BY, SN, RP, ...) or name (Bayern, Sachsen, Rheinland-Pfalz, ...)"
-        ),
-    },
-  },
-  async ({ bundesland }) => {
-    try {
-      const bl = resolveBundesland(bundesland);
-      const graphs = graphsForBundesland(bl.code);
-      const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?uri (SAMPLE(?l) AS ?label)
-${fromClauses(graphs)}
-WHERE {
-  ?s lp:LP_0000537 ?uri .
-  ?uri rdfs:label ?l .
-  ?s lp:LP_0000029 <${bl.uri}> .
-  FILTER(lang(?l) = "de")
-}
-GROUP BY ?uri
-ORDER BY ?label`;
-
-      const results = await querySparql(query);
-      return { content: [{ type: "text", text: formatResults(results) }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
-  }
-);
+// get_node limits and schemas
+const MAX_INCOMING = 200;
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
 
-// Tool 4: List Schularten for a Bundesland
-server.registerTool(
-  "list_schularten",
-  {
-    title: "List Schularten",
-    description:
-      "List all school types (Schularten) for a Bundesland. " +
-      "Accepts a state code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...).",
-    inputSchema: {
-      bundesland: z
-        .string()
-        .describe(
-          "State code (BY, SN, RP, ...) or name (Bayern, Sachsen, Rheinland-Pfalz, ...)"
-        ),
-    },
-  },
-  async ({ bundesland }) => {
-    try {
-      const bl = resolveBundesland(bundesland);
-      const graphs = graphsForBundesland(bl.code);
-      const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?uri (SAMPLE(?l) AS ?label)
-${fromClauses(graphs)}
-WHERE {
-  ?s lp:LP_0000812 ?uri .
-  ?uri rdfs:label ?l .
-  ?s lp:LP_0000029 <${bl.uri}> .
-}
-GROUP BY ?uri
-ORDER BY ?label`;
-
-      const results = await querySparql(query);
-      return { content: [{ type: "text", text: formatResults(results) }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
-  }
-);
+const labelledUriSchema = z.object({
+  uri: z.string(),
+  label: z.string().optional(),
+});
 
-// Tool 5: Find Lehrpläne
-server.registerTool(
-  "find_lehrplaene",
-  {
-    title: "Find Lehrpläne",
-    description:
-      "Find curricula (Lehrpläne) by Bundesland, optionally filtered by Schulfach, Schulart, or Jahrgangsstufe. " +
-      "Use state codes/names. For Schulfach and Schulart, use the German name as shown by the list tools.",
-    inputSchema: {
-      bundesland: z
-        .string()
-        .describe("State code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...)"),
-      schulfach: z
-        .string()
-        .optional()
-        .describe("Optional: subject name in German (e.g. Biologie, Mathematik)"),
-      schulart: z
-        .string()
-        .optional()
-        .describe("Optional: school type name (e.g. Gymnasium, Grundschule)"),
-      jahrgangsstufe: z
-        .number()
-        .int()
-        .min(1)
-        .max(13)
-        .optional()
-        .describe("Optional: grade level (1-13)"),
+/** minStufe/maxStufe arguments of find_lehrplaene and search. */
+const stufenArgs = {
+  minStufe: z
+    .number()
+    .int()
+    .min(MIN_STUFE)
+    .max(MAX_STUFE)
+    .optional()
+    .describe("Optional: first school year of the range (1-13)"),
+  maxStufe: z
+    .number()
+    .int()
+    .min(MIN_STUFE)
+    .max(MAX_STUFE)
+    .optional()
+    .describe("Optional: last school year of the range (1-13)"),
+};
+
+/**
+ * Description of sparql_query, which lists the graphs and changes with them,
+ * followed by the ontology cheat-sheet once it is loaded.
+ */
+function sparqlQueryDescription(): string {
+  return (
+    "Execute a read-only SPARQL query (SELECT, ASK, CONSTRUCT or DESCRIBE) against the MEM ontology triple store. " +
+    "PREFIX lp: <https://w3id.org/lehrplan/ontology/> is available. " +
+    "You MUST include FROM clauses for the graphs you need; other graphs, updates and SERVICE are rejected. " +
+    `Results are capped at LIMIT ${config().limits.sparqlQueryMaxLimit}. CONSTRUCT and DESCRIBE return Turtle. ` +
+    "Available graphs: " +
+    [
+      ...INFRA_GRAPHS.map((g) => `<${g}>`),
+      ...Object.entries(STATE_GRAPHS).map(([code, g]) => `${code}: <${g}>`),
+    ].join(", ") +
+    (cheatSheet ? `. ${cheatSheet}` : "")
+  );
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Wrap a tool callback to record metrics and run it with the request's abort
+ * signal, so that cancelling the MCP request aborts its SPARQL queries.
+ */
+function observedTool<Args>(
+  name: string,
+  cb: (args: Args, extra: ToolExtra) => Promise<CallToolResult>
+): (args: Args, extra: ToolExtra) => Promise<CallToolResult> {
+  return (args, extra) => observeToolCall(name, () => withCancellation(extra.signal, () => cb(args, extra)));
+}
+
+/** Register all tools on a server. Returns sparql_query, whose description changes on reload. */
+function registerTools(server: McpServer): RegisteredTool {
+  // Tool 1: Execute arbitrary SPARQL queries
+  const sparqlQuery = server.registerTool(
+    "sparql_query",
+    {
+      title: "SPARQL Query",
+      description: sparqlQueryDescription(),
+      inputSchema: {
+        query: z
+          .string()
+          .describe("The full SPARQL SELECT, ASK, CONSTRUCT or DESCRIBE query to execute"),
+        format: formatArg,
+      },
+      outputSchema: {
+        queryType: z.enum(["SELECT", "ASK", "CONSTRUCT", "DESCRIBE"]),
+        ...resultsOutputShape,
+        boolean: z.boolean().optional().describe("ASK result"),
+        turtle: z.string().optional().describe("CONSTRUCT/DESCRIBE result graph as Turtle"),
+      },
     },
-  },
-  async ({ bundesland, schulfach, schulart, jahrgangsstufe }) => {
-    try {
-      const bl = resolveBundesland(bundesland);
-      const graphs = graphsForBundesland(bl.code);
+    observedTool("sparql_query", async ({ query, format }) => {
+      try {
+        const guarded = guardQuery(query, {
+          allowedGraphs: ALL_GRAPHS,
+          maxLimit: config().limits.sparqlQueryMaxLimit,
+        });
+        const options = { timeoutMs: config().limits.sparqlQueryTimeoutMs };
 
-      const filters = [`?s lp:LP_0000029 <${bl.uri}> .`];
+        if (guarded.queryType === "CONSTRUCT" || guarded.queryType === "DESCRIBE") {
+          const turtle = (await constructSparql(guarded.query, options)).trim();
+          const structured = { queryType: guarded.queryType, vars: [], rows: [], turtle };
+          return {
+            content: [
+              {
+                type: "text",
+                text: format === "json" ? JSON.stringify(structured, null, 2) : turtle || "No triples.",
+              },
+            ],
+            structuredContent: structured,
+          };
+        }
 
-      if (schulfach) {
-        const sfUri = await resolveSchulfachUri(schulfach, bl.uri, graphs);
-        filters.push(`?s lp:LP_0000537 <${sfUri}> .`);
+        const results = await querySparql(guarded.query, options);
+        if (guarded.queryType === "ASK") {
+          const structured = {
+            queryType: guarded.queryType,
+            vars: [],
+            rows: [],
+            boolean: results.boolean === true,
+          };
+          return {
+            content: [
+              {
+                type: "text",
+                text: format === "json" ? JSON.stringify(structured, null, 2) : String(structured.boolean),
+              },
+            ],
+            structuredContent: structured,
+          };
+        }
+        return toolResult(
+          { queryType: guarded.queryType, ...toStructured(results) },
+          format
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
-      if (schulart) {
-        const saUri = await resolveSchulartUri(schulart, bl.uri, graphs);
-        filters.push(`?s lp:LP_0000812 <${saUri}> .`);
+    })
+  );
+
+  // Tool 2: List available Bundesländer
+  server.registerTool(
+    "list_bundeslaender",
+    {
+      title: "List Bundesländer",
+      description:
+        "List all German federal states (Bundesländer) available in the ontology with their codes and URIs.",
+      inputSchema: {
+        format: formatArg,
+      },
+      outputSchema: resultsOutputShape,
+    },
+    observedTool("list_bundeslaender", async ({ format }) => {
+      try {
+        const query = selectQuery({
+          distinct: true,
+          select: ["?uri", "?label"],
+          from: ALL_GRAPHS,
+          where: [
+            triple("?s", lp("LP_0000029"), "?uri"),
+            triple("?uri", "rdfs:label", "?label"),
+            `FILTER(lang(?label) = "de")`,
+          ],
+          orderBy: ["?label"],
+        });
+
+        const results = await querySparql(query);
+        return toolResult(toStructured(results), format);
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
-      if (jahrgangsstufe) {
-        const jsUri = `https://w3id.org/lehrplan/ontology/LP_${String(2000000 + jahrgangsstufe).padStart(7, "0")}`;
-        filters.push(`?s lp:LP_0000026 <${jsUri}> .`);
+    })
+  );
+
+  // Tool 3: List Schulfächer for a Bundesland
+  server.registerTool(
+    "list_schulfaecher",
+    {
+      title: "List Schulfächer",
+      description:
+        "List all school subjects (Schulfächer) for a Bundesland. " +
+        "Accepts a state code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...).",
+      inputSchema: {
+        bundesland: z
+          .string()
+          .describe(
+            "State code (BY, SN, RP, ...) or name (Bayern, Sachsen, Rheinland-Pfalz, ...)"
+          ),
+        format: formatArg,
+      },
+      outputSchema: resultsOutputShape,
+    },
+    observedTool("list_schulfaecher", async ({ bundesland, format }) => {
+      try {
+        const results = await querySparql(schulfaecherQuery(resolveBundesland(bundesland)));
+        return toolResult(toStructured(results), format);
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
+    })
+  );
 
-      const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?s ?label
-${fromClauses(graphs)}
-WHERE {
-  ?lpsubclass rdfs:subClassOf* lp:LP_0000438 .
-  ?s rdf:type ?lpsubclass .
-  ?s rdfs:label ?label .
-  ${filters.join("\n  ")}
-}
-ORDER BY ?label
-LIMIT 50`;
-
-      const results = await querySparql(query);
-      return { content: [{ type: "text", text: formatResults(results) }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
-  }
-);
+  // Tool 4: List Schularten for a Bundesland
+  server.registerTool(
+    "list_schularten",
+    {
+      title: "List Schularten",
+      description:
+        "List all school types (Schularten) for a Bundesland. " +
+        "Accepts a state code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...).",
+      inputSchema: {
+        bundesland: z
+          .string()
+          .describe(
+            "State code (BY, SN, RP, ...) or name (Bayern, Sachsen, Rheinland-Pfalz, ...)"
+          ),
+        format: formatArg,
+      },
+      outputSchema: resultsOutputShape,
+    },
+    observedTool("list_schularten", async ({ bundesland, format }) => {
+      try {
+        const results = await querySparql(schulartenQuery(resolveBundesland(bundesland)));
+        return toolResult(toStructured(results), format);
+      } catch (e) {
+        return toolError(errorMessage(e));
+      }
+    })
+  );
 
-// Tool 6: Get curriculum tree (hat Teil) — bounded by depth
-server.registerTool(
-  "get_lehrplan_tree",
-  {
-    title: "Get Lehrplan Tree",
-    description:
-      "Get the hierarchical structure (parent-child via 'hat Teil') of a specific Lehrplan. " +
-      "Use a Lehrplan URI obtained from find_lehrplaene. " +
-      "The depth parameter controls how many levels deep the tree goes (default 2). " +
-      "Use get_children to drill deeper into specific nodes.",
-    inputSchema: {
-      lehrplanUri: z.string().describe("URI of the Lehrplan (from find_lehrplaene results)"),
-      depth: z
-        .number()
-        .int()
-        .min(1)
-        .max(10)
-        .default(2)
-        .describe("How many levels deep to retrieve (default 2)"),
+  // Tool 5: Find Lehrpläne
+  server.registerTool(
+    "find_lehrplaene",
+    {
+      title: "Find Lehrpläne",
+      description:
+        "Find curricula (Lehrpläne) by Bundesland, optionally filtered by Schulfach, Schulart, or Jahrgangsstufe. " +
+        "Use state codes/names. Schulfach and Schulart accept the German name as shown by the list tools, " +
+        "common abbreviations (Bio, Mathe, Gym), slightly misspelled names, or a URI. " +
+        "minStufe/maxStufe find Lehrpläne covering any school year in the range, including double-grade " +
+        "Lehrpläne (5/6) and phases (Eingangsphase = 1-2, Einführungsphase = 11, Qualifikationsphase = 12-13). " +
+        "Each result lists its Jahrgangsstufen and the school years they cover. " +
+        "Results are paged: pass nextCursor back as cursor to fetch more.",
+      inputSchema: {
+        bundesland: z
+          .string()
+          .describe("State code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...)"),
+        schulfach: z
+          .string()
+          .optional()
+          .describe("Optional: subject name in German (e.g. Biologie, Mathe) or URI"),
+        schulart: z
+          .string()
+          .optional()
+          .describe("Optional: school type name (e.g. Gymnasium, Grundschule) or URI"),
+        jahrgangsstufe: z
+          .number()
+          .int()
+          .min(1)
+          .max(13)
+          .optional()
+          .describe("Optional: a single grade level (1-13); same as minStufe = maxStufe"),
+        ...stufenArgs,
+        ...pageArgs,
+        format: formatArg,
+      },
+      outputSchema: { ...resultsOutputShape, ...pageOutputShape },
     },
-  },
-  async ({ lehrplanUri, depth }) => {
-    try {
-      // Build UNION clauses for each depth level (1..depth)
-      // Level 1: root -> child
-      // Level 2: root -> intermediate -> child
-      // etc.
-      const unions: string[] = [];
-      for (let d = 1; d <= depth; d++) {
-        if (d === 1) {
-          unions.push(
-            `{ BIND(<${lehrplanUri}> AS ?parent) . ?parent lp:LP_0000008 ?child . }`
+    observedTool(
+      "find_lehrplaene",
+      async ({ bundesland, schulfach, schulart, jahrgangsstufe, minStufe, maxStufe, limit, cursor, format }) => {
+        try {
+          const pageKey = ["find_lehrplaene", bundesland, schulfach, schulart, jahrgangsstufe, minStufe, maxStufe];
+          const offset = decodeCursor(cursor, pageKey);
+
+          const bl = resolveBundesland(bundesland);
+          const stufen = stufenRange({ jahrgangsstufe, minStufe, maxStufe });
+          const query = await lehrplanQuery(
+            { bundesland: bl, schulfach, schulart, stufen },
+            { limit: limit + 1, offset }
+          );
+
+          const page = paginate(await querySparql(query), offset, limit, pageKey);
+          const { vars, rows: found } = toStructured(page.results);
+          const graphs = graphsForBundesland(bl.code);
+          const coverage = await fetchGradeCoverage(
+            found.map((row) => row.s.value),
+            await fetchGrades(graphs),
+            graphs
           );
+          const integerBinding = (value: number): SparqlBinding => ({
+            type: "literal",
+            value: String(value),
+            datatype: "http://www.w3.org/2001/XMLSchema#integer",
+          });
+          // New rows: the found ones are shared with the query cache
+          const rows = found.map((row) => {
+            const grades = coverage.get(row.s.value)!;
+            const added: Record<string, SparqlBinding> = {
+              jahrgangsstufen: { type: "literal", value: grades.labels.join(", ") },
+            };
+            if (grades.min !== undefined) added.minStufe = integerBinding(grades.min);
+            if (grades.max !== undefined) added.maxStufe = integerBinding(grades.max);
+            return { ...row, ...added };
+          });
+          return toolResult(
+            { vars: [...vars, "jahrgangsstufen", "minStufe", "maxStufe"], rows, nextCursor: page.nextCursor },
+            format,
+            {
+              empty: stufen
+                ? `No Lehrpläne found covering Jahrgangsstufe ${formatStufen(stufen.min, stufen.max)}.`
+                : undefined,
+              note: nextPageNote(page.nextCursor),
+            }
+          );
+        } catch (e) {
+          return toolError(errorMessage(e));
+        }
+      }
+    )
+  );
+
+  // Tool 6: Get curriculum tree (hat Teil) — bounded by depth and node budget
+  server.registerTool(
+    "get_lehrplan_tree",
+    {
+      title: "Get Lehrplan Tree",
+      description:
+        "Get the hierarchical structure (parent-child via 'hat Teil') of a specific Lehrplan as a nested tree. " +
+        "Use a Lehrplan URI obtained from find_lehrplaene. " +
+        "The depth parameter controls how many levels deep the tree goes (default 2); maxNodes caps the size. " +
+        "Every node has an accurate hasChildren flag; use get_children or a deeper call to expand collapsed nodes. " +
+        "format=outline renders an indented outline.",
+      inputSchema: {
+        lehrplanUri: z.string().describe("URI of the Lehrplan (from find_lehrplaene results)"),
+        depth: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .default(2)
+          .describe("How many levels deep to retrieve (default 2)"),
+        maxNodes: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_TREE_NODES)
+          .default(500)
+          .describe(`Maximum number of nodes to return (default 500, max ${MAX_TREE_NODES})`),
+        format: z
+          .enum([...OUTPUT_FORMATS, "outline"])
+          .default("table")
+          .describe(
+            "Text output format: table (parent/child rows, default), json, csv, markdown or outline (indented tree)"
+          ),
+      },
+      outputSchema: {
+        root: treeNodeSchema,
+        nodeCount: z.number().int(),
+        truncated: z.boolean().describe("True if maxNodes stopped the expansion early"),
+        jahrgangsstufen: z
+          .object({ labels: z.array(z.string()), min: z.number().int().optional(), max: z.number().int().optional() })
+          .describe("Jahrgangsstufen of the Lehrplan and the school years they cover"),
+      },
+    },
+    observedTool("get_lehrplan_tree", async ({ lehrplanUri, depth, maxNodes, format }) => {
+      try {
+        iri(lehrplanUri);
+        const uri = lehrplanUri.trim();
+        const tree = await buildTree(uri, {
+          maxDepth: depth,
+          maxNodes,
+          graphs: ALL_GRAPHS,
+        });
+        const jahrgangsstufen = (
+          await fetchGradeCoverage([uri], await fetchGrades(ALL_GRAPHS), ALL_GRAPHS)
+        ).get(uri)!;
+
+        let text: string;
+        if (format === "json") {
+          text = JSON.stringify(tree, null, 2);
+        } else if (format === "outline") {
+          text = renderOutline(tree.root);
         } else {
-          // Chain d-1 intermediate hops from root to ?parent, then ?parent -> ?child
-          const steps: string[] = [];
-          steps.push(`<${lehrplanUri}> lp:LP_0000008 ?step1 .`);
-          for (let i = 2; i < d; i++) {
-            steps.push(`?step${i - 1} lp:LP_0000008 ?step${i} .`);
+          const { vars, rows } = treeToRows(tree.root);
+          text = renderTable(vars, rows, format);
+        }
+        if (format !== "json" && format !== "csv") {
+          const notes = [`(${tree.nodeCount} nodes, depth ${depth}.`];
+          if (jahrgangsstufen.min !== undefined && jahrgangsstufen.max !== undefined) {
+            notes.push(`Jahrgangsstufen ${formatStufen(jahrgangsstufen.min, jahrgangsstufen.max)}.`);
+          }
+          if (tree.truncated) notes.push(`Node budget of ${maxNodes} reached.`);
+          if (hasCollapsedNodes(tree.root)) {
+            notes.push("Nodes marked hasChildren without listed children can be expanded with get_children.");
           }
-          steps.push(`BIND(?step${d - 1} AS ?parent)`);
-          steps.push(`?parent lp:LP_0000008 ?child .`);
-          unions.push(`{ ${steps.join(" ")} }`);
+          text += `\n\n${notes.join(" ")})`;
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { ...tree, jahrgangsstufen },
+        };
+      } catch (e) {
+        return toolError(errorMessage(e));
+      }
+    })
+  );
+
+  // Tool 7: Get direct children of a node
+  server.registerTool(
+    "get_children",
+    {
+      title: "Get Children",
+      description:
+        "Get the direct children of a specific node in the Lehrplan hierarchy (via 'hat Teil'). " +
+        "Use this to drill down into a specific branch after using get_lehrplan_tree. " +
+        "Results are paged: pass nextCursor back as cursor to fetch more.",
+      inputSchema: {
+        nodeUri: z
+          .string()
+          .describe("URI of the node to get children for"),
+        ...pageArgs,
+        format: formatArg,
+      },
+      outputSchema: { ...resultsOutputShape, ...pageOutputShape },
+    },
+    observedTool("get_children", async ({ nodeUri, limit, cursor, format }) => {
+      try {
+        const pageKey = ["get_children", nodeUri];
+        const offset = decodeCursor(cursor, pageKey);
+
+        const query = selectQuery({
+          distinct: true,
+          select: ["?child", "?childLabel"],
+          from: ALL_GRAPHS,
+          where: [
+            triple(iri(nodeUri), lp("LP_0000008"), "?child"),
+            `OPTIONAL { ${triple("?child", "rdfs:label", "?childLabel")} }`,
+          ],
+          orderBy: ["?child", "?childLabel"],
+          limit: limit + 1,
+          offset,
+        });
+
+        const page = paginate(await querySparql(query), offset, limit, pageKey);
+        return toolResult(
+          { ...toStructured(page.results), nextCursor: page.nextCursor },
+          format,
+          {
+            empty: offset === 0 ? "No children found (leaf node)." : "No further children.",
+            note: nextPageNote(page.nextCursor),
+          }
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
+      }
+    })
+  );
+
+  // Tool 8: Full-text search across Lehrpläne
+  server.registerTool(
+    "search",
+    {
+      title: "Search Lehrpläne",
+      description:
+        "Full-text search across all Lehrplan nodes, ranked by relevance. " +
+        "Words match by prefix (e.g. 'Fisch' also finds 'Fische'); \"quoted phrases\" match exactly; " +
+        "'Fisch OR Vogel' matches either; 'NOT Mensch' or '-Mensch' excludes. " +
+        "Each hit has a snippet with the matched words in bold and the path to its Lehrplan with " +
+        "Bundesland, Schulfach, Schulart and Jahrgangsstufen. " +
+        "Optionally filter by Bundesland and/or Schulfach, and by minStufe/maxStufe to nodes of Lehrpläne " +
+        "covering those school years. " +
+        "Results are paged: pass nextCursor back as cursor to fetch more.",
+      inputSchema: {
+        query: z
+          .string()
+          .describe('Search query, e.g. \'Fisch\', \'"Fische und Amphibien"\', \'Evolution OR Genetik -Mensch\''),
+        bundesland: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: state code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...) to limit search"
+          ),
+        schulfach: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: subject name in German (e.g. Biologie, Mathematik) to limit search to a specific subject"
+          ),
+        ...stufenArgs,
+        ...pageArgs,
+        format: formatArg,
+      },
+      outputSchema: { ...searchOutputShape, ...resultsOutputShape, ...pageOutputShape },
+    },
+    observedTool("search", async ({ query, bundesland, schulfach, minStufe, maxStufe, limit, cursor, format }) => {
+      try {
+        const pageKey = ["search", query, bundesland, schulfach, minStufe, maxStufe];
+        const offset = decodeCursor(cursor, pageKey);
+        const parsed = parseSearchQuery(query);
+
+        let graphs: string[] = ALL_GRAPHS;
+        let blUri: string | undefined;
+        if (bundesland) {
+          const bl = resolveBundesland(bundesland);
+          graphs = graphsForBundesland(bl.code);
+          blUri = bl.uri;
+        }
+
+        const patterns: string[] = [];
+        if (schulfach) {
+          if (!blUri) {
+            return toolError("Bundesland is required when filtering by Schulfach.");
+          }
+          const sfUri = await resolveVocabularyUri("schulfach", schulfach, blUri, graphs);
+          patterns.push(triple("?lp", lp("LP_0000537"), iri(sfUri)));
+        }
+        const stufen = stufenRange({ minStufe, maxStufe });
+        if (stufen) {
+          const grades = await fetchGrades(graphs);
+          patterns.push(
+            valuesIris("stufe", gradesOverlapping(grades, stufen.min, stufen.max)),
+            triple("?lp", lp("LP_0000026"), "?stufe")
+          );
+        }
+        // Schulfach and Jahrgangsstufe belong to the Lehrplan above the hit
+        if (patterns.length > 0) patterns.unshift(triple("?lp", `${lp("LP_0000008")}+`, "?s"));
+
+        // Rank a bounded candidate set, then page through the ranking
+        const strategy = searchStrategy();
+        const maxCandidates = config().limits.searchMaxCandidates;
+        const candidates = await querySparql(
+          candidateQuery(parsed, strategy, graphs, patterns, maxCandidates + 1)
+        );
+        const rows = candidates.results.bindings.slice(0, maxCandidates).map((b) => ({
+          uri: b.s.value,
+          label: b.label.value,
+          score: b.score ? Number(b.score.value) : undefined,
+        }));
+        const ranked = await rankHits(rows, parsed, graphs);
+        const truncated = candidates.results.bindings.length > maxCandidates;
+        const pageHits = ranked.slice(offset, offset + limit);
+        const nextCursor = offset + limit < ranked.length ? encodeCursor(offset + limit, pageKey) : undefined;
+
+        // Path up to the Lehrplan and its facets, for the hits on this page only
+        const paths = await fetchPaths(
+          pageHits.map((h) => h.uri),
+          graphs
+        );
+        const labels = await fetchLabels([...paths.values()].flat(), graphs);
+        const facetsByRoot = new Map<string, Record<string, string[]>>();
+        for (const hit of pageHits) {
+          const root = paths.get(hit.uri)?.[0] ?? hit.uri;
+          if (!facetsByRoot.has(root)) facetsByRoot.set(root, await fetchLehrplanFacets(root));
         }
+
+        const hits = pageHits.map((hit) => {
+          const path = (paths.get(hit.uri) ?? []).map((uri) => ({ uri, label: labels.get(uri) }));
+          const root = path[0] ?? { uri: hit.uri, label: hit.label };
+          const facets = facetsByRoot.get(root.uri)!;
+          return {
+            ...hit,
+            path,
+            // Only roots with a Bundesland are Lehrpläne; other labelled nodes have no context
+            lehrplan: facets.bundesland.length > 0 ? root : undefined,
+            bundesland: facets.bundesland,
+            schulfach: facets.schulfach,
+            schulart: facets.schulart,
+            jahrgangsstufen: facets.jahrgangsstufen,
+          };
+        });
+
+        const literalBinding = (value: string): SparqlBinding => ({ type: "literal", value });
+        const tableRows = hits.map((hit) => ({
+          score: literalBinding(String(hit.score)),
+          snippet: literalBinding(hit.snippet),
+          s: { type: "uri", value: hit.uri },
+          lehrplan: literalBinding(hit.lehrplan ? (hit.lehrplan.label ?? hit.lehrplan.uri) : ""),
+          schulart: literalBinding(hit.schulart.join(", ")),
+          jahrgangsstufen: literalBinding(hit.jahrgangsstufen.join(", ")),
+          path: literalBinding(hit.path.map((p) => p.label ?? p.uri).join(" > ")),
+        }));
+
+        const notes = [
+          truncated
+            ? `(Only the ${maxCandidates} best matches were ranked. Narrow the query or add filters to see others.)`
+            : undefined,
+          nextPageNote(nextCursor),
+        ].filter(Boolean);
+        return toolResult(
+          {
+            strategy,
+            hits,
+            truncated,
+            vars: ["score", "snippet", "s", "lehrplan", "schulart", "jahrgangsstufen", "path"],
+            rows: tableRows,
+            nextCursor,
+          },
+          format,
+          {
+            empty: offset === 0 ? `No results found for "${query}".` : "No further results.",
+            note: notes.length ? notes.join("\n") : undefined,
+          }
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
+    })
+  );
+
+  // Tool 9: Get all properties and context of a single node
+  server.registerTool(
+    "get_node",
+    {
+      title: "Get Node",
+      description:
+        "Get everything known about one node (Lehrplan, Lernbereich, Kompetenz, ...): all outgoing and incoming " +
+        "properties with readable predicate labels from the ontology, its rdf:types, and the breadcrumb path " +
+        "up the 'hat Teil' hierarchy to the owning Lehrplan.",
+      inputSchema: {
+        nodeUri: z.string().describe("URI of the node"),
+        format: formatArg,
+      },
+      outputSchema: {
+        uri: z.string(),
+        label: z.string().optional(),
+        types: z.array(labelledUriSchema),
+        path: z
+          .array(labelledUriSchema)
+          .describe("Ancestors via 'hat Teil', from the owning Lehrplan down to the direct parent"),
+        lehrplan: labelledUriSchema.optional().describe("Root of the 'hat Teil' path"),
+        incomingTruncated: z
+          .boolean()
+          .describe(`True if the node has more than ${MAX_INCOMING} incoming links`),
+        ...resultsOutputShape,
+      },
+    },
+    observedTool("get_node", async ({ nodeUri, format }) => {
+      try {
+        const node = iri(nodeUri);
+        const hatTeil = lp("LP_0000008");
+
+        const outgoing = await querySparql(
+          selectQuery({
+            distinct: true,
+            select: ["?p", "?o"],
+            from: ALL_GRAPHS,
+            where: [triple(node, "?p", "?o")],
+            orderBy: ["?p", "?o"],
+          })
+        );
+        const incoming = await querySparql(
+          selectQuery({
+            distinct: true,
+            select: ["?s", "?p"],
+            from: ALL_GRAPHS,
+            where: [triple("?s", "?p", node)],
+            orderBy: ["?p", "?s"],
+            limit: MAX_INCOMING + 1,
+          })
+        );
+        const outRows = outgoing.results.bindings;
+        const inRows = incoming.results.bindings.slice(0, MAX_INCOMING);
+        if (outRows.length === 0 && inRows.length === 0) {
+          return toolError(`No data found for <${nodeUri}>. Check the URI.`);
+        }
+
+        // Walk up 'hat Teil' edges from the node to the root
+        const edges = await querySparql(
+          selectQuery({
+            distinct: true,
+            select: ["?parent", "?child"],
+            from: ALL_GRAPHS,
+            where: [triple("?child", `${hatTeil}*`, node), triple("?parent", hatTeil, "?child")],
+          })
+        );
+        const parentOf = new Map<string, string>();
+        for (const b of edges.results.bindings) {
+          if (!parentOf.has(b.child.value)) parentOf.set(b.child.value, b.parent.value);
+        }
+        const ancestors: string[] = [];
+        for (
+          let current = parentOf.get(nodeUri.trim());
+          current && !ancestors.includes(current);
+          current = parentOf.get(current)
+        ) {
+          ancestors.unshift(current);
+        }
+
+        const labels = await fetchLabels(
+          [
+            nodeUri.trim(),
+            ...ancestors,
+            ...outRows.flatMap((b) => [b.p.value, ...(b.o.type === "uri" ? [b.o.value] : [])]),
+            ...inRows.flatMap((b) => [b.p.value, b.s.value]),
+          ],
+          ALL_GRAPHS
+        );
+        const labelled = (uri: string) => ({ uri, label: labels.get(uri) });
+        const labelBinding = (uri: string): SparqlBinding | undefined => {
+          const label = labels.get(uri);
+          return label === undefined ? undefined : { type: "literal", value: label };
+        };
+
+        const rows = [
+          ...outRows.map((b) => ({ direction: "out", predicate: b.p, value: b.o })),
+          ...inRows.map((b) => ({ direction: "in", predicate: b.p, value: b.s })),
+        ].map(({ direction, predicate, value }) => {
+          const row: Record<string, SparqlBinding> = {
+            direction: { type: "literal", value: direction },
+            predicate,
+            value,
+          };
+          const predicateLabel = labelBinding(predicate.value);
+          if (predicateLabel) row.predicateLabel = predicateLabel;
+          const valueLabel = value.type === "uri" ? labelBinding(value.value) : undefined;
+          if (valueLabel) row.valueLabel = valueLabel;
+          return row;
+        });
+
+        const types = outRows
+          .filter((b) => b.p.value === RDF_TYPE && b.o.type === "uri")
+          .map((b) => labelled(b.o.value));
+        const path = ancestors.map(labelled);
+        const incomingTruncated = incoming.results.bindings.length > MAX_INCOMING;
+        const label = labels.get(nodeUri.trim());
 
-      const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?parent ?parentLabel ?child ?childLabel
-${fromClauses(ALL_GRAPHS)}
-WHERE {
-  ${unions.join("\n  UNION\n  ")}
-  OPTIONAL { ?parent rdfs:label ?parentLabel . }
-  OPTIONAL { ?child rdfs:label ?childLabel . }
-}
-ORDER BY ?parent ?child`;
-
-      const results = await querySparql(query);
-
-      // Check if any leaf nodes at the deepest level have further children
-      const leafUris = new Set<string>();
-      const parentUris = new Set<string>();
-      for (const binding of results.results.bindings) {
-        parentUris.add(binding.parent.value);
-        leafUris.add(binding.child.value);
+        const describe = (u: { uri: string; label?: string }) => u.label ?? u.uri;
+        const title = [
+          `${label ?? "(no label)"} <${nodeUri.trim()}>`,
+          `Types: ${types.map(describe).join(", ") || "(none)"}`,
+          `Path: ${path.map(describe).join(" > ") || "(top level)"}`,
+        ].join("\n");
+
+        return toolResult(
+          {
+            uri: nodeUri.trim(),
+            label,
+            types,
+            path,
+            lehrplan: path[0],
+            incomingTruncated,
+            vars: ["direction", "predicate", "predicateLabel", "value", "valueLabel"],
+            rows,
+          },
+          format,
+          {
+            title,
+            note: incomingTruncated
+              ? `(Only the first ${MAX_INCOMING} incoming links are shown.)`
+              : undefined,
+          }
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
-      // Leaves are children that never appear as parents
-      const leaves = [...leafUris].filter((u) => !parentUris.has(u));
+    })
+  );
+
+  // Tool 10: Compare curricula across Bundesländer
+  server.registerTool(
+    "compare_lehrplaene",
+    {
+      title: "Compare Lehrpläne",
+      description:
+        "Compare the curricula of two or more Bundesländer for the same Schulfach and Jahrgangsstufe. " +
+        "Finds the matching Lehrpläne per state like find_lehrplaene, then compares the labels of all nodes " +
+        "below them ('hat Teil'): shared topics, similarly worded topics, and topics specific to one state. " +
+        `At most ${MAX_TREE_NODES} topics are compared in total, split evenly between the states.`,
+      inputSchema: {
+        bundeslaender: z
+          .array(z.string())
+          .min(2)
+          .describe("Two or more state codes or names, e.g. [\"BY\", \"SN\", \"RP\"]"),
+        schulfach: z.string().describe("Subject name in German (e.g. Biologie, Mathematik)"),
+        jahrgangsstufe: z.number().int().min(1).max(13).describe("Grade level (1-13)"),
+        schulart: z
+          .string()
+          .optional()
+          .describe("Optional: school type name (e.g. Gymnasium) to narrow the Lehrpläne"),
+        minSimilarity: z
+          .number()
+          .min(0.1)
+          .max(1)
+          .default(0.5)
+          .describe("Minimum word-overlap score (0.1-1) for reporting two topics as similar (default 0.5)"),
+        format: formatArg,
+      },
+      outputSchema: {
+        lehrplaene: z
+          .array(z.object({ bundesland: z.string(), uri: z.string(), label: z.string() }))
+          .describe("The Lehrpläne that were compared"),
+        missing: z
+          .array(z.object({ bundesland: z.string(), reason: z.string() }))
+          .describe("States without a matching Lehrplan"),
+        truncated: z.array(z.string()).describe("States whose topics were cut off at the node budget"),
+        ...comparisonOutputShape,
+      },
+    },
+    observedTool(
+      "compare_lehrplaene",
+      async ({ bundeslaender, schulfach, jahrgangsstufe, schulart, minSimilarity, format }) => {
+        try {
+          const states = new Map<string, { code: string; uri: string }>();
+          for (const b of bundeslaender) {
+            const bl = resolveBundesland(b);
+            states.set(bl.code || bl.uri, bl);
+          }
+          if (states.size < 2) {
+            return toolError("Provide at least two different Bundesländer to compare.");
+          }
 
-      let text = formatResults(results);
-      if (leaves.length > 0) {
-        text += `\n\n(Tree shown to depth ${depth}. Deeper levels may exist. Use get_children to explore further.)`;
+          const lehrplaene: Topic[] = [];
+          const missing: { bundesland: string; reason: string }[] = [];
+          const topicsByState = new Map<string, Topic[]>();
+          const truncated: string[] = [];
+          // The similarity pass compares every pair of topics, so the node
+          // budget bounds the whole comparison, not each state
+          const budget = Math.max(1, Math.floor(MAX_TREE_NODES / states.size));
+
+          for (const [code, bl] of states) {
+            let uris: string[];
+            try {
+              const results = await querySparql(
+                await lehrplanQuery({
+                  bundesland: bl,
+                  schulfach,
+                  schulart,
+                  stufen: { min: jahrgangsstufe, max: jahrgangsstufe },
+                })
+              );
+              for (const b of results.results.bindings) {
+                lehrplaene.push({ bundesland: code, uri: b.s.value, label: b.label.value });
+              }
+              uris = [...new Set(results.results.bindings.map((b) => b.s.value))];
+            } catch (e) {
+              missing.push({ bundesland: code, reason: errorMessage(e) });
+              continue;
+            }
+            if (uris.length === 0) {
+              missing.push({ bundesland: code, reason: "No matching Lehrplan found." });
+              continue;
+            }
+            const fetched = await fetchTopics(code, uris, graphsForBundesland(bl.code), budget);
+            topicsByState.set(code, fetched.topics);
+            if (fetched.truncated) truncated.push(code);
+          }
+
+          if (topicsByState.size < 2) {
+            const reasons = missing.map((m) => `${m.bundesland}: ${m.reason}`).join("\n");
+            return toolError(
+              `Need matching Lehrpläne in at least two states to compare.\n${reasons}`
+            );
+          }
+
+          const comparison = compareTopics(topicsByState, minSimilarity);
+          const structured = { lehrplaene, missing, truncated, ...comparison };
+
+          let text: string;
+          if (format === "json") {
+            text = JSON.stringify(structured, null, 2);
+          } else if (format === "csv") {
+            text = comparisonToCsv(comparison);
+          } else {
+            text = renderComparison(lehrplaene, comparison, format === "markdown");
+            if (missing.length > 0) {
+              text += `\n\n(Not compared: ${missing.map((m) => `${m.bundesland}: ${m.reason}`).join("; ")})`;
+            }
+            if (truncated.length > 0) {
+              text += `\n\n(Only the first ${budget} topics of ${truncated.join(", ")} were compared.)`;
+            }
+          }
+
+          return { content: [{ type: "text", text }], structuredContent: structured };
+        } catch (e) {
+          return toolError(errorMessage(e));
+        }
       }
+    )
+  );
 
-      return { content: [{ type: "text", text }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
-  }
-);
+  // Tool 11: Inspect the query cache. Flushing is left to the operator (SIGUSR2),
+  // since any connected client could call a tool
+  server.registerTool(
+    "cache_admin",
+    {
+      title: "Cache Admin",
+      description: "Show query cache statistics: hits, misses, evictions, size and hit rate.",
+      inputSchema: {},
+      outputSchema: {
+        entries: z.number().int(),
+        maxEntries: z.number().int(),
+        ttlMs: z.number().int(),
+        hits: z.number().int(),
+        misses: z.number().int(),
+        evictions: z.number().int(),
+        hitRate: z.number().describe("hits / (hits + misses), 0 if unused"),
+        vocabularies: z.number().int().describe("Cached Schulfach/Schulart vocabularies"),
+      },
+    },
+    observedTool("cache_admin", async () => {
+      try {
+        const stats = cacheStats();
+        const lookups = stats.hits + stats.misses;
+        const structured = {
+          ...stats,
+          hitRate: lookups === 0 ? 0 : Math.round((stats.hits / lookups) * 1000) / 1000,
+          vocabularies: vocabularies.size,
+        };
+        const text = [
+          "Query cache:",
+          `entries: ${stats.entries}/${stats.maxEntries} (TTL ${stats.ttlMs} ms)`,
+          `hits: ${stats.hits}, misses: ${stats.misses}, hit rate: ${structured.hitRate}`,
+          `evictions: ${stats.evictions}`,
+          `vocabularies: ${structured.vocabularies}`,
+        ].join("\n");
+        return { content: [{ type: "text", text }], structuredContent: structured };
+      } catch (e) {
+        return toolError(errorMessage(e));
+      }
+    })
+  );
 
-// Tool 7: Get direct children of a node
-server.registerTool(
-  "get_children",
-  {
-    title: "Get Children",
-    description:
-      "Get the direct children of a specific node in the Lehrplan hierarchy (via 'hat Teil'). " +
-      "Use this to drill down into a specific branch after using get_lehrplan_tree.",
-    inputSchema: {
-      nodeUri: z
-        .string()
-        .describe("URI of the node to get children for"),
+  // Tool 12: Export a whole Lehrplan as a document or RDF subgraph
+  server.registerTool(
+    "export_lehrplan",
+    {
+      title: "Export Lehrplan",
+      description:
+        "Export a complete Lehrplan with all its parts ('hat Teil', any depth). " +
+        "markdown and html give a numbered outline with Bundesland, Schulfach, Schulart and Jahrgangsstufen " +
+        "(the HTML is a standalone document that word processors open directly); csv gives one row per part " +
+        "with its outline number and the labels of its ancestors; jsonld and turtle give every statement about " +
+        "the Lehrplan and its parts for use in other RDF tools.",
+      inputSchema: {
+        lehrplanUri: z.string().describe("URI of the Lehrplan (from find_lehrplaene results)"),
+        format: z
+          .enum(EXPORT_FORMATS)
+          .default("markdown")
+          .describe("markdown (default), html, csv, jsonld or turtle"),
+      },
+      outputSchema: {
+        lehrplan: labelledUriSchema,
+        format: z.enum(EXPORT_FORMATS),
+        mimeType: z.string(),
+        nodeCount: z.number().int(),
+        truncated: z.boolean().describe("True if EXPORT_MAX_NODES stopped the export early"),
+        document: z.string().describe("The exported document"),
+      },
     },
-  },
-  async ({ nodeUri }) => {
-    try {
-      const query = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?child ?childLabel
-${fromClauses(ALL_GRAPHS)}
-WHERE {
-  <${nodeUri}> lp:LP_0000008 ?child .
-  OPTIONAL { ?child rdfs:label ?childLabel . }
-}
-ORDER BY ?child`;
-
-      const results = await querySparql(query);
-      if (results.results.bindings.length === 0) {
+    observedTool("export_lehrplan", async ({ lehrplanUri, format }) => {
+      try {
+        const exported = await exportLehrplan(lehrplanUri, format);
         return {
-          content: [{ type: "text", text: "No children found (leaf node)." }],
+          content: [{ type: "text", text: exported.document }],
+          structuredContent: { ...exported },
         };
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
-      return { content: [{ type: "text", text: formatResults(results) }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
-    }
-  }
-);
+    })
+  );
 
-// Tool 8: Full-text search across Lehrpläne
-server.registerTool(
-  "search",
-  {
-    title: "Search Lehrpläne",
-    description:
-      "Full-text search across all Lehrplan nodes by keyword. " +
-      "Uses prefix matching (e.g. 'Fisch' also finds 'Fische'). " +
-      "Returns matching nodes with their parent Lehrplan for context. " +
-      "Optionally filter by Bundesland and/or Schulfach.",
-    inputSchema: {
-      query: z.string().describe("Search term (e.g. 'Fisch', 'Evolution')"),
-      bundesland: z
-        .string()
-        .optional()
-        .describe(
-          "Optional: state code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...) to limit search"
-        ),
-      schulfach: z
-        .string()
-        .optional()
-        .describe(
-          "Optional: subject name in German (e.g. Biologie, Mathematik) to limit search to a specific subject"
+  // Tool 13: Leaf nodes (Lernziele, Kompetenzen, Inhalte) below a Lehrplan or node
+  server.registerTool(
+    "list_lernziele",
+    {
+      title: "List Lernziele",
+      description:
+        "List the leaf nodes below a Lehrplan or any of its nodes: the Lernziele, Kompetenzen and Inhalte " +
+        "without parts of their own, skipping the Lernbereich structure above them. " +
+        "Leaves are grouped by their class from the ontology, each with its path from the Lehrplan. " +
+        "Filter by class with types, e.g. [\"Lernziel\"] (names, local names like LP_0000438, or URIs; " +
+        "subclasses are included). " +
+        "Results are paged: pass nextCursor back as cursor to fetch more.",
+      inputSchema: {
+        nodeUri: z.string().describe("URI of the Lehrplan or node whose leaves to list"),
+        types: z
+          .array(z.string())
+          .optional()
+          .describe("Optional: only leaves of these ontology classes or their subclasses"),
+        ...pageArgs,
+        format: formatArg,
+      },
+      outputSchema: {
+        types: z
+          .array(z.object({ uri: z.string().optional(), label: z.string().optional(), count: z.number().int() }))
+          .describe("Classes of the leaves with the number of leaves each, over all pages; no uri for untyped leaves"),
+        leaves: z.array(
+          z.object({
+            uri: z.string(),
+            label: z.string().optional(),
+            type: labelledUriSchema.optional().describe("Most specific ontology class of the leaf"),
+            path: z.array(labelledUriSchema).describe("Ancestors via 'hat Teil', from the Lehrplan down to the direct parent"),
+          })
         ),
+        leafCount: z.number().int(),
+        truncated: z.boolean().describe(`True if the node has more than ${MAX_TREE_NODES} leaves`),
+        ...resultsOutputShape,
+        ...pageOutputShape,
+      },
     },
-  },
-  async ({ query, bundesland, schulfach }) => {
-    try {
-      let graphs: string[] = ALL_GRAPHS;
-      let blUri: string | undefined;
-      if (bundesland) {
-        const bl = resolveBundesland(bundesland);
-        graphs = graphsForBundesland(bl.code);
-        blUri = bl.uri;
-      }
+    observedTool("list_lernziele", async ({ nodeUri, types, limit, cursor, format }) => {
+      try {
+        iri(nodeUri);
+        const uri = nodeUri.trim();
+        const pageKey = ["list_lernziele", uri, types];
+        const offset = decodeCursor(cursor, pageKey);
 
-      const containsExpr = query.trim().split(/\s+/).map(w => `'${w.replace(/'/g, "")}*'`).join(" AND ");
+        const classes = await fetchOntologyClasses(INFRA_GRAPHS[0]);
+        const wanted = (types ?? []).map((t) => resolveClass(classes, t));
+        const { leaves, truncated } = await fetchLeaves(uri, ALL_GRAPHS, MAX_TREE_NODES);
 
-      let sparql: string;
-      if (schulfach) {
-        if (!blUri) {
-          return toolError("Bundesland is required when filtering by Schulfach.");
+        // One entry per leaf and most specific class; untyped leaves only without a filter
+        const entries: { uri: string; type?: string }[] = [];
+        for (const [leaf, leafTypes] of leaves) {
+          const known = leafTypes.filter((t) => classes.has(t));
+          const specific = known.filter((t) => !known.some((o) => o !== t && isSubclassOf(classes, o, t)));
+          const matching = wanted.length
+            ? specific.filter((t) => wanted.some((w) => isSubclassOf(classes, t, w)))
+            : specific;
+          if (matching.length > 0) for (const type of matching) entries.push({ uri: leaf, type });
+          else if (wanted.length === 0) entries.push({ uri: leaf });
         }
-        const sfUri = await resolveSchulfachUri(schulfach, blUri, graphs);
-        sparql = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?s ?label ?lp ?lpLabel
-${fromClauses(graphs)}
-WHERE {
-  ?s rdfs:label ?label .
-  ?label bif:contains "${containsExpr}" .
-  ?lp lp:LP_0000008+ ?s .
-  ?lp lp:LP_0000537 <${sfUri}> .
-  ?lp rdfs:label ?lpLabel .
-}
-ORDER BY ?s
-LIMIT 50`;
-      } else {
-        sparql = `
-PREFIX lp: <https://w3id.org/lehrplan/ontology/>
-SELECT DISTINCT ?s ?label ?parent ?parentLabel
-${fromClauses(graphs)}
-WHERE {
-  ?s rdfs:label ?label .
-  ?label bif:contains "${containsExpr}" .
-  OPTIONAL {
-    ?parent lp:LP_0000008 ?s .
-    ?parent rdfs:label ?parentLabel .
-  }
-}
-ORDER BY ?s
-LIMIT 50`;
+
+        const paths = await fetchPaths([...new Set(entries.map((e) => e.uri))], ALL_GRAPHS);
+        const typeLabel = (type?: string) => (type ? classes.get(type)?.label ?? type : "(no ontology class)");
+        const documentOrder = (uri: string) => [...(paths.get(uri) ?? []), uri].join(" ");
+        // By class, untyped leaves last, then in document order
+        entries.sort(
+          (a, b) =>
+            Number(!a.type) - Number(!b.type) ||
+            typeLabel(a.type).localeCompare(typeLabel(b.type)) ||
+            documentOrder(a.uri).localeCompare(documentOrder(b.uri), undefined, { numeric: true })
+        );
+
+        const counts = new Map<string | undefined, number>();
+        for (const entry of entries) counts.set(entry.type, (counts.get(entry.type) ?? 0) + 1);
+        const typeCounts = [...counts].map(([type, count]) => ({
+          uri: type,
+          label: type ? classes.get(type)?.label : undefined,
+          count,
+        }));
+
+        const page = entries.slice(offset, offset + limit);
+        const nextCursor = offset + limit < entries.length ? encodeCursor(offset + limit, pageKey) : undefined;
+        const labels = await fetchLabels(
+          page.flatMap((e) => [e.uri, ...(paths.get(e.uri) ?? [])]),
+          ALL_GRAPHS
+        );
+        const pageLeaves = page.map((entry) => ({
+          uri: entry.uri,
+          label: labels.get(entry.uri),
+          type: entry.type ? { uri: entry.type, label: classes.get(entry.type)?.label } : undefined,
+          path: (paths.get(entry.uri) ?? []).map((p) => ({ uri: p, label: labels.get(p) })),
+        }));
+
+        const rows = pageLeaves.map((leaf): Record<string, SparqlBinding> => ({
+          type: { type: "literal", value: typeLabel(leaf.type?.uri) },
+          s: { type: "uri", value: leaf.uri },
+          label: { type: "literal", value: leaf.label ?? "" },
+          path: { type: "literal", value: leaf.path.map((p) => p.label ?? p.uri).join(" > ") },
+        }));
+
+        const summary = typeCounts.map((t) => `${typeLabel(t.uri)}: ${t.count}`).join(", ");
+        const notes = [
+          entries.length > 0 ? `(${entries.length} ${entries.length === 1 ? "leaf" : "leaves"}. ${summary}.)` : undefined,
+          truncated ? `(Only the first ${MAX_TREE_NODES} leaves were read. Pick a node further down.)` : undefined,
+          nextPageNote(nextCursor),
+        ].filter(Boolean);
+        return toolResult(
+          {
+            types: typeCounts,
+            leaves: pageLeaves,
+            leafCount: entries.length,
+            truncated,
+            vars: ["type", "s", "label", "path"],
+            rows,
+            nextCursor,
+          },
+          format,
+          {
+            empty:
+              offset > 0
+                ? "No further leaves."
+                : leaves.size === 0
+                  ? "No parts below this node; it is a leaf itself or does not exist."
+                  : "No leaves of the requested types.",
+            note: notes.length ? notes.join("\n") : undefined,
+          }
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
+    })
+  );
 
-      const results = await querySparql(sparql);
-      if (results.results.bindings.length === 0) {
-        return {
-          content: [
-            { type: "text", text: `No results found for "${query}".` },
-          ],
+  // Tool 14: Classes and properties of the ontology and how the states use them
+  server.registerTool(
+    "describe_ontology",
+    {
+      title: "Describe Ontology",
+      description:
+        "Describe the MEM ontology: its classes with their subclass hierarchy, and its properties with domain, " +
+        "range and German/English labels. Each term comes with its use per Bundesland: instances of a class, " +
+        "triples using a property. Use it to find the classes and properties for sparql_query.",
+      inputSchema: {
+        section: z
+          .enum(["all", "classes", "properties"])
+          .default("all")
+          .describe("all (default), or only classes or properties"),
+        format: formatArg,
+      },
+      outputSchema: {
+        ...ontologyOutputShape,
+        ...resultsOutputShape,
+      },
+    },
+    observedTool("describe_ontology", async ({ section, format }) => {
+      try {
+        const described = await fetchOntologyDescription();
+        const description = {
+          classes: section === "properties" ? [] : described.classes,
+          properties: section === "classes" ? [] : described.properties,
         };
+        const hierarchy = renderClassHierarchy(description.classes);
+        return toolResult(
+          {
+            ...description,
+            vars: ["term", "kind", "label_de", "label_en", "subClassOf", "domain", "range", "usage"],
+            rows: ontologyRows(description),
+          },
+          format,
+          {
+            title: hierarchy ? `Class hierarchy:\n${hierarchy}` : undefined,
+            empty: `No ${section === "all" ? "classes or properties" : section} declared in <${INFRA_GRAPHS[0]}>.`,
+            note: `(${described.classes.length} classes, ${described.properties.length} properties in the ontology. ` +
+              "usage counts instances of a class or triples with a property per Bundesland.)",
+          }
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
-      let text = formatResults(results);
-      if (results.results.bindings.length === 50) {
-        text += "\n\n(Results limited to 50. Try a more specific query or add filters.)";
+    })
+  );
+
+  // Tool 15: Changes between two releases of a state graph
+  server.registerTool(
+    "diff_graphs",
+    {
+      title: "Diff Graphs",
+      description:
+        "Compare two releases of a state graph, e.g. the configured http://sn-2026-01-29/ with a newly " +
+        "published http://sn-2026-03-01/ found by graph discovery, before switching GRAPH_STATE_<CODE>. Reports Lehrpläne and nodes that " +
+        "were added, removed or relabelled, and nodes moved to other parents in the 'hat Teil' hierarchy. " +
+        "Both must be configured or discovered state graphs of the same state; either may be given as a " +
+        "Bundesland code for its configured graph. " +
+        "summary counts all changes; the change list is paged: pass nextCursor back as cursor to fetch more.",
+      inputSchema: {
+        oldGraph: z.string().describe("URI of the earlier graph, or a Bundesland code (e.g. SN) for its configured graph"),
+        newGraph: z.string().describe("URI of the later graph, or a Bundesland code for its configured graph"),
+        ...pageArgs,
+        format: formatArg,
+      },
+      outputSchema: {
+        ...diffOutputShape,
+        changeCount: z.number().int(),
+        ...resultsOutputShape,
+        ...pageOutputShape,
+      },
+    },
+    observedTool("diff_graphs", async ({ oldGraph, newGraph, limit, cursor, format }) => {
+      try {
+        const diff = await diffStateGraphs(oldGraph, newGraph);
+        const pageKey = ["diff_graphs", diff.oldGraph, diff.newGraph];
+        const offset = decodeCursor(cursor, pageKey);
+        const changes = diff.changes.slice(offset, offset + limit);
+        const nextCursor =
+          offset + limit < diff.changes.length ? encodeCursor(offset + limit, pageKey) : undefined;
+        return toolResult(
+          {
+            ...diff,
+            changes,
+            changeCount: diff.changes.length,
+            vars: DIFF_VARS,
+            rows: diffRows(changes),
+            nextCursor,
+          },
+          format,
+          {
+            title: renderDiffSummary(diff),
+            empty: offset > 0 ? "No further changes." : "No changes.",
+            note: nextPageNote(nextCursor),
+          }
+        );
+      } catch (e) {
+        return toolError(errorMessage(e));
       }
-      return { content: [{ type: "text", text }] };
-    } catch (e) {
-      return toolError(e instanceof Error ? e.message : String(e));
+    })
+  );
+
+  return sparqlQuery;
+}
+
+// --- Resources ---
+
+// Depth limit for the subtree rendered into a Lehrplan or node resource
+const RESOURCE_MAX_DEPTH = 20;
+
+/**
+ * Resource ID of a node: the local name for nodes in the ontology namespace
+ * (LP_0000438), otherwise the percent-encoded URI.
+ */
+function resourceId(uri: string): string {
+  const local = uri.startsWith(LP_NAMESPACE) ? uri.slice(LP_NAMESPACE.length) : "";
+  return /^LP_\d{7}$/.test(local) ? local : encodeURIComponent(uri);
+}
+
+/** Node URI for a resource ID, as produced by resourceId. */
+function uriFromResourceId(id: string | string[]): string {
+  const value = Array.isArray(id) ? id.join(",") : id;
+  if (/^LP_\d{7}$/.test(value)) return LP_NAMESPACE + value;
+  let uri: string;
+  try {
+    uri = decodeURIComponent(value);
+  } catch {
+    throw new Error(`Invalid resource ID "${value}". Use a percent-encoded URI.`);
+  }
+  iri(uri);
+  return uri;
+}
+
+function stateCode(code: string | string[]): string {
+  const bl = resolveBundesland(Array.isArray(code) ? code[0] : code);
+  if (!STATE_GRAPHS[bl.code]) {
+    throw new Error(
+      `No curriculum data for Bundesland "${code}". Available: ${Object.keys(STATE_GRAPHS).join(", ")}.`
+    );
+  }
+  return bl.code;
+}
+
+/** All Lehrpläne of a configured state, ordered by label. */
+async function fetchLehrplaene(code: string): Promise<VocabularyEntry[]> {
+  const results = await querySparql(
+    await lehrplanQuery({ bundesland: { code, uri: BUNDESLAND_URI[code] } })
+  );
+  return results.results.bindings.map((b) => ({ uri: b.s.value, label: b.label.value }));
+}
+
+/** All Lehrpläne of every configured state. */
+async function fetchAllLehrplaene(): Promise<(VocabularyEntry & { bundesland: string })[]> {
+  const all = [];
+  for (const code of Object.keys(STATE_GRAPHS)) {
+    if (!BUNDESLAND_URI[code]) continue;
+    for (const entry of await fetchLehrplaene(code)) all.push({ ...entry, bundesland: code });
+  }
+  return all;
+}
+
+const LEHRPLAN_FACETS: Record<string, string> = {
+  bundesland: "LP_0000029",
+  schulfach: "LP_0000537",
+  schulart: "LP_0000812",
+  jahrgangsstufen: "LP_0000026",
+};
+
+/** Labels of the Bundesland, Schulfach, Schulart and Jahrgangsstufen of a Lehrplan. */
+async function fetchLehrplanFacets(uri: string): Promise<Record<string, string[]>> {
+  const predicates = Object.fromEntries(
+    Object.entries(LEHRPLAN_FACETS).map(([facet, local]) => [LP_NAMESPACE + local, facet])
+  );
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?p", "?o"],
+      from: ALL_GRAPHS,
+      where: [valuesIris("p", Object.keys(predicates)), triple(iri(uri), "?p", "?o")],
+    })
+  );
+  const labels = await fetchLabels(
+    results.results.bindings.map((b) => b.o.value),
+    ALL_GRAPHS
+  );
+  const facets: Record<string, string[]> = Object.fromEntries(
+    Object.keys(LEHRPLAN_FACETS).map((facet) => [facet, []])
+  );
+  for (const b of results.results.bindings) {
+    facets[predicates[b.p.value]].push(labels.get(b.o.value) ?? b.o.value);
+  }
+  for (const values of Object.values(facets)) {
+    values.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+  return facets;
+}
+
+/** Markdown section with the subtree below a node, or a note for leaves. */
+function treeMarkdown(tree: Tree): string {
+  const children = tree.root.children ?? [];
+  if (children.length === 0) return "(No parts.)";
+  const lines = children.map(renderOutline);
+  if (tree.truncated) {
+    lines.push("", `(Truncated at ${tree.nodeCount} nodes. Use get_children to expand nodes marked [+].)`);
+  }
+  return lines.join("\n");
+}
+
+/** Export a Lehrplan with all its parts, for export_lehrplan and the export command. */
+async function exportLehrplan(lehrplanUri: string, format: ExportFormat) {
+  iri(lehrplanUri);
+  const uri = lehrplanUri.trim();
+  const [facets, tree] = await Promise.all([
+    fetchLehrplanFacets(uri),
+    buildTree(uri, { maxDepth: Infinity, maxNodes: config().limits.exportMaxNodes, graphs: ALL_GRAPHS }),
+  ]);
+  if (!tree.root.label && !tree.root.hasChildren && facets.bundesland.length === 0) {
+    throw new Error(`Lehrplan not found: ${uri}`);
+  }
+  return {
+    lehrplan: { uri, label: tree.root.label },
+    format,
+    mimeType: EXPORT_MIME_TYPES[format],
+    nodeCount: tree.nodeCount,
+    truncated: tree.truncated,
+    document: await renderExport(format, { tree, facets, graphs: ALL_GRAPHS }),
+  };
+}
+
+/** A graph given as URI, or as a Bundesland code for its configured state graph. */
+function stateGraphArg(value: string): string {
+  const trimmed = value.trim();
+  const code = trimmed.toUpperCase();
+  if (STATE_GRAPHS[code]) return STATE_GRAPHS[code];
+  if (BUNDESLAND_URI[code]) throw new Error(`No graph configured for ${code}. Give the graph URI.`);
+  iri(trimmed);
+  return trimmed;
+}
+
+/**
+ * Compare two releases of a state graph, given as URIs or Bundesland codes.
+ * Only configured graphs and those found by discovery can be compared,
+ * including a discovered release that a configured graph still shadows.
+ */
+function diffStateGraphs(oldGraph: string, newGraph: string) {
+  const stateGraphs = [...new Set([...Object.values(STATE_GRAPHS), ...Object.values(discoveredGraphs)])];
+  return diffGraphs(stateGraphArg(oldGraph), stateGraphArg(newGraph), INFRA_GRAPHS[0], stateGraphs, BUNDESLAND_URI);
+}
+
+/** Complete a state code among the configured states. */
+function completeStateCode(value: string): string[] {
+  const prefix = value.trim().toUpperCase();
+  return Object.keys(STATE_GRAPHS).filter((code) => code.startsWith(prefix)).sort();
+}
+
+/** Complete a Lehrplan ID by ID prefix, label or state code. */
+async function completeLehrplanId(value: string): Promise<string[]> {
+  const needle = normalizeName(value);
+  return (await fetchAllLehrplaene())
+    .filter(({ uri, label, bundesland }) => {
+      const id = resourceId(uri);
+      return (
+        id.startsWith(value) ||
+        decodeURIComponent(id).startsWith(value) ||
+        normalizeName(label).includes(needle) ||
+        bundesland === value.trim().toUpperCase()
+      );
+    })
+    .map(({ uri }) => resourceId(uri));
+}
+
+interface RenderedResource {
+  markdown: string;
+  json: unknown;
+}
+
+/**
+ * Register a resource template in two renderings: mem://<path> as Markdown
+ * and mem://<path>.json as JSON. The JSON template is registered first, since
+ * templates are matched in registration order and the Markdown one would
+ * also accept a trailing ".json" as part of the last variable.
+ */
+function registerRenderedResource(
+  server: McpServer,
+  name: string,
+  path: string,
+  metadata: {
+    title: string;
+    description: string;
+    list?: () => Promise<ListResourcesResult>;
+    complete: Record<string, CompleteResourceTemplateCallback>;
+  },
+  render: (variables: Variables) => Promise<RenderedResource>
+) {
+  const { title, description, list, complete } = metadata;
+  server.registerResource(
+    `${name}_json`,
+    new ResourceTemplate(`mem://${path}.json`, { list: undefined, complete }),
+    { title: `${title} (JSON)`, description, mimeType: "application/json" },
+    async (uri, variables) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify((await render(variables)).json, null, 2),
+        },
+      ],
+    })
+  );
+  server.registerResource(
+    name,
+    new ResourceTemplate(`mem://${path}`, { list, complete }),
+    { title, description, mimeType: "text/markdown" },
+    async (uri, variables) => ({
+      contents: [
+        { uri: uri.href, mimeType: "text/markdown", text: (await render(variables)).markdown },
+      ],
+    })
+  );
+}
+
+/** Register all resources on a server. */
+function registerResources(server: McpServer) {
+  // Resource 1: A Lehrplan with its metadata and curriculum tree
+  registerRenderedResource(
+    server,
+    "lehrplan",
+    "lehrplan/{id}",
+    {
+      title: "Lehrplan",
+      description:
+        "A Lehrplan with Bundesland, Schulfach, Schulart, Jahrgangsstufen and its 'hat Teil' tree. " +
+        "The ID is the percent-encoded Lehrplan URI.",
+      list: async () => ({
+        resources: (await fetchAllLehrplaene()).map(({ uri, label, bundesland }) => ({
+          uri: `mem://lehrplan/${resourceId(uri)}`,
+          name: `${bundesland}: ${label}`,
+          mimeType: "text/markdown",
+        })),
+      }),
+      complete: { id: completeLehrplanId },
+    },
+    async ({ id }) => {
+      const uri = uriFromResourceId(id);
+      const [facets, tree] = await Promise.all([
+        fetchLehrplanFacets(uri),
+        buildTree(uri, { maxDepth: RESOURCE_MAX_DEPTH, maxNodes: config().limits.resourceMaxNodes, graphs: ALL_GRAPHS }),
+      ]);
+      if (!tree.root.label && !tree.root.hasChildren && facets.bundesland.length === 0) {
+        throw new Error(`Lehrplan not found: ${uri}`);
+      }
+      const markdown = [
+        `# ${tree.root.label ?? uri}`,
+        "",
+        `- URI: <${uri}>`,
+        `- Bundesland: ${facets.bundesland.join(", ") || "—"}`,
+        `- Schulfach: ${facets.schulfach.join(", ") || "—"}`,
+        `- Schulart: ${facets.schulart.join(", ") || "—"}`,
+        `- Jahrgangsstufen: ${facets.jahrgangsstufen.join(", ") || "—"}`,
+        "",
+        "## Aufbau",
+        "",
+        treeMarkdown(tree),
+      ].join("\n");
+      return { markdown, json: { uri, label: tree.root.label, ...facets, ...tree } };
     }
+  );
+
+  // Resource 2: Any curriculum node with its subtree
+  registerRenderedResource(
+    server,
+    "node",
+    "node/{id}",
+    {
+      title: "Lehrplan Node",
+      description:
+        "A node of a Lehrplan (Lernbereich, Lernziel, ...) with its 'hat Teil' subtree. " +
+        "The ID is the percent-encoded node URI, or the local name for ontology terms (LP_0000438).",
+      complete: { id: completeLehrplanId },
+    },
+    async ({ id }) => {
+      const uri = uriFromResourceId(id);
+      const tree = await buildTree(uri, {
+        maxDepth: RESOURCE_MAX_DEPTH,
+        maxNodes: config().limits.resourceMaxNodes,
+        graphs: ALL_GRAPHS,
+      });
+      if (!tree.root.label && !tree.root.hasChildren) {
+        throw new Error(`Node not found or without label and parts: ${uri}`);
+      }
+      const markdown = [`# ${tree.root.label ?? uri}`, "", `- URI: <${uri}>`, "", treeMarkdown(tree)].join("\n");
+      return { markdown, json: tree };
+    }
+  );
+
+  // Resource 3: Schulfächer of a Bundesland
+  registerRenderedResource(
+    server,
+    "bundesland_schulfaecher",
+    "bundesland/{code}/schulfaecher",
+    {
+      title: "Schulfächer of a Bundesland",
+      description: "All school subjects with curriculum data in a Bundesland, by state code.",
+      list: async () => ({
+        resources: Object.keys(STATE_GRAPHS).map((code) => ({
+          uri: `mem://bundesland/${code}/schulfaecher`,
+          name: `Schulfächer ${code}`,
+          mimeType: "text/markdown",
+        })),
+      }),
+      complete: { code: completeStateCode },
+    },
+    async ({ code }) => {
+      const bl = resolveBundesland(stateCode(code));
+      const results = await querySparql(schulfaecherQuery(bl));
+      const schulfaecher = results.results.bindings.map((b) => ({ uri: b.uri.value, label: b.label.value }));
+      const markdown = [
+        `# Schulfächer (${bl.code})`,
+        "",
+        ...schulfaecher.map((s) => `- ${s.label} <${s.uri}>`),
+      ].join("\n");
+      return { markdown, json: { bundesland: bl.code, schulfaecher } };
+    }
+  );
+
+  // Resource 4: Lehrpläne of a Bundesland, linking to their Lehrplan resources
+  registerRenderedResource(
+    server,
+    "bundesland_lehrplaene",
+    "bundesland/{code}/lehrplaene",
+    {
+      title: "Lehrpläne of a Bundesland",
+      description: "All Lehrpläne of a Bundesland, by state code, with their mem://lehrplan/{id} resource URIs.",
+      list: async () => ({
+        resources: Object.keys(STATE_GRAPHS).map((code) => ({
+          uri: `mem://bundesland/${code}/lehrplaene`,
+          name: `Lehrpläne ${code}`,
+          mimeType: "text/markdown",
+        })),
+      }),
+      complete: { code: completeStateCode },
+    },
+    async ({ code }) => {
+      const bundesland = stateCode(code);
+      const lehrplaene = (await fetchLehrplaene(bundesland)).map((l) => ({
+        ...l,
+        resource: `mem://lehrplan/${resourceId(l.uri)}`,
+      }));
+      const markdown = [
+        `# Lehrpläne (${bundesland})`,
+        "",
+        ...lehrplaene.map((l) => `- [${l.label}](${l.resource})`),
+      ].join("\n");
+      return { markdown, json: { bundesland, lehrplaene } };
+    }
+  );
+}
+
+// --- Prompts ---
+
+/** Complete a Bundesland among the configured states, by code or name. */
+function completeBundesland(value: string): string[] {
+  const needle = value.trim().toLowerCase();
+  const codes = Object.keys(STATE_GRAPHS).filter((code) => BUNDESLAND_URI[code]);
+  const names = Object.entries(BUNDESLAND_NAME)
+    .filter(([, code]) => STATE_GRAPHS[code])
+    .map(([name]) => name.replace(/(^|-)\p{L}/gu, (c) => c.toUpperCase()));
+  return [...codes, ...names].filter((v) => v.toLowerCase().startsWith(needle)).sort();
+}
+
+/** Complete the last entry of a comma-separated list of Bundesländer. */
+function completeBundeslaender(value: string): string[] {
+  const parts = value.split(",");
+  const last = parts.pop() ?? "";
+  const chosen = new Set(parts.map((p) => p.trim().toUpperCase()));
+  const head = parts.length > 0 ? `${parts.map((p) => p.trim()).join(", ")}, ` : "";
+  return completeBundesland(last)
+    .filter((v) => !chosen.has(v.toUpperCase()))
+    .map((v) => head + v);
+}
+
+/**
+ * Complete a Schulfach label from the list_schulfaecher results of the chosen
+ * Bundesland, or of every configured state if none is chosen yet.
+ */
+async function completeSchulfach(
+  value: string,
+  context?: { arguments?: Record<string, string> }
+): Promise<string[]> {
+  const chosen = context?.arguments?.bundesland ?? context?.arguments?.bundeslaender?.split(",")[0];
+  let states: { code: string; uri: string }[];
+  try {
+    states = chosen?.trim()
+      ? [resolveBundesland(chosen)]
+      : Object.keys(STATE_GRAPHS)
+          .filter((code) => BUNDESLAND_URI[code])
+          .map((code) => ({ code, uri: BUNDESLAND_URI[code] }));
+  } catch {
+    return [];
   }
+
+  const needle = normalizeName(value);
+  const labels = new Set<string>();
+  for (const bl of states) {
+    const results = await querySparql(schulfaecherQuery(bl));
+    for (const b of results.results.bindings) {
+      if (normalizeName(b.label.value).includes(needle)) labels.add(b.label.value);
+    }
+  }
+  return [...labels].sort((a, b) => a.localeCompare(b));
+}
+
+function completeJahrgangsstufe(value: string): string[] {
+  return Array.from({ length: 13 }, (_, i) => String(i + 1)).filter((v) => v.startsWith(value.trim()));
+}
+
+const bundeslandPromptArg = completable(z.string(), completeBundesland).describe(
+  "State code (BY, SN, RP, ...) or name (Bayern, Sachsen, ...)"
 );
+const schulfachPromptArg = completable(z.string(), completeSchulfach).describe(
+  "Subject name in German (e.g. Biologie, Mathematik)"
+);
+// The SDK completes only required prompt arguments: an optional one is not a
+// Completable itself, and its argument types admit no optional Completable
+const schulartPromptArg = z.string().optional().describe("Optional: school type (e.g. Gymnasium, Oberschule)");
+
+/** Parse a Jahrgangsstufe prompt argument (prompt arguments are always strings). */
+function parseJahrgangsstufe(value: string): number {
+  const grade = Number(value.trim());
+  if (!Number.isInteger(grade) || grade < 1 || grade > 13) {
+    throw new Error(`Invalid Jahrgangsstufe "${value}". Use a grade level from 1 to 13.`);
+  }
+  return grade;
+}
+
+function promptResult(description: string, text: string) {
+  return {
+    description,
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  };
+}
+
+/** Register all prompts on a server. */
+function registerPrompts(server: McpServer) {
+  // Prompt 1: Plan a teaching unit from the Lehrplan
+  server.registerPrompt(
+    "plan_unit",
+    {
+      title: "Plan a Teaching Unit",
+      description:
+        "Plan a teaching unit for one Schulfach and Jahrgangsstufe, grounded in the state's Lehrplan.",
+      argsSchema: {
+        bundesland: bundeslandPromptArg,
+        schulfach: schulfachPromptArg,
+        jahrgangsstufe: completable(z.string(), completeJahrgangsstufe).describe("Grade level (1-13)"),
+        schulart: schulartPromptArg,
+        thema: z.string().optional().describe("Optional: topic of the unit, e.g. Fotosynthese"),
+      },
+    },
+    ({ bundesland, schulfach, jahrgangsstufe, schulart, thema }) => {
+      const bl = resolveBundesland(bundesland);
+      const grade = parseJahrgangsstufe(jahrgangsstufe);
+      const lehrplanArgs = JSON.stringify({ bundesland: bl.code, schulfach, schulart: schulart || undefined, jahrgangsstufe: grade });
+      const steps = [
+        `1. Call find_lehrplaene with ${lehrplanArgs} to find the Lehrplan. If several match, pick the one that fits best and say which.`,
+        "2. Call get_lehrplan_tree on it with depth 3 and format \"outline\" to see its Lernbereiche.",
+        thema
+          ? `3. Call search with ${JSON.stringify({ query: thema, bundesland: bl.code, schulfach })} and pick the Lernbereich that covers the topic; expand it with get_children where needed.`
+          : "3. Pick a Lernbereich suitable for a unit of about 4-8 lessons and expand it with get_children where needed.",
+        "4. Use get_node on the chosen Lernbereich and its Lernziele to read their full descriptions.",
+        "5. Plan the unit: learning goals (quoting the Lehrplan wording), a sequence of lessons with content and methods, " +
+          "and how achievement is checked. Cite the URI of every Lehrplan node you rely on.",
+      ];
+      return promptResult(
+        `Teaching unit for ${schulfach}, Klasse ${grade}, ${bl.code}`,
+        [
+          `Plan a teaching unit for ${schulfach} in Klasse ${grade}${schulart ? ` (${schulart})` : ""} in ${bl.code}` +
+            `${thema ? ` on the topic "${thema}"` : ""}, based on the official Lehrplan.`,
+          "",
+          "Use the MEM ontology tools:",
+          ...steps,
+          "",
+          "Only state curriculum requirements that the tools returned; mark your own suggestions as such.",
+        ].join("\n")
+      );
+    }
+  );
+
+  // Prompt 2: Compare the curricula of several states
+  server.registerPrompt(
+    "compare_states",
+    {
+      title: "Compare States",
+      description: "Compare what two or more Bundesländer teach in one Schulfach and Jahrgangsstufe.",
+      argsSchema: {
+        bundeslaender: completable(z.string(), completeBundeslaender).describe(
+          "Comma-separated state codes or names, e.g. SN, BY"
+        ),
+        schulfach: schulfachPromptArg,
+        jahrgangsstufe: completable(z.string(), completeJahrgangsstufe).describe("Grade level (1-13)"),
+        schulart: schulartPromptArg,
+      },
+    },
+    ({ bundeslaender, schulfach, jahrgangsstufe, schulart }) => {
+      const codes = [
+        ...new Set(bundeslaender.split(",").filter((b) => b.trim()).map((b) => resolveBundesland(b).code)),
+      ];
+      if (codes.length < 2) {
+        throw new Error("Provide at least two different Bundesländer, separated by commas.");
+      }
+      const grade = parseJahrgangsstufe(jahrgangsstufe);
+      const compareArgs = JSON.stringify({
+        bundeslaender: codes,
+        schulfach,
+        jahrgangsstufe: grade,
+        schulart: schulart || undefined,
+        format: "markdown",
+      });
+      return promptResult(
+        `${schulfach}, Klasse ${grade}: ${codes.join(" vs. ")}`,
+        [
+          `Compare what ${codes.join(", ")} teach in ${schulfach}, Klasse ${grade}${schulart ? ` (${schulart})` : ""}.`,
+          "",
+          "Use the MEM ontology tools:",
+          `1. Call compare_lehrplaene with ${compareArgs}.`,
+          "2. For states listed as missing, call find_lehrplaene without jahrgangsstufe to check whether the subject is taught in a neighbouring grade, and say so.",
+          "3. For the most important state-specific topics, call get_node to read their descriptions.",
+          "4. Summarise: the common core, differently worded but equivalent topics, and what only one state covers. " +
+            "Point out differences that matter when a pupil moves between these states.",
+          "",
+          "Base the comparison on the tool results only and cite Lehrplan node URIs.",
+        ].join("\n")
+      );
+    }
+  );
+
+  // Prompt 3: Explain a Lehrplan
+  server.registerPrompt(
+    "explain_lehrplan",
+    {
+      title: "Explain a Lehrplan",
+      description: "Find a Lehrplan and summarise its structure and learning goals.",
+      argsSchema: {
+        bundesland: bundeslandPromptArg,
+        schulfach: schulfachPromptArg,
+        schulart: schulartPromptArg,
+        jahrgangsstufe: z.string().optional().describe("Optional: grade level (1-13)"),
+      },
+    },
+    ({ bundesland, schulfach, schulart, jahrgangsstufe }) => {
+      const bl = resolveBundesland(bundesland);
+      const grade = jahrgangsstufe?.trim() ? parseJahrgangsstufe(jahrgangsstufe) : undefined;
+      const lehrplanArgs = JSON.stringify({ bundesland: bl.code, schulfach, schulart: schulart || undefined, jahrgangsstufe: grade });
+      return promptResult(
+        `Lehrplan ${schulfach} in ${bl.code}`,
+        [
+          `Explain the ${schulfach} Lehrplan of ${bl.code}` +
+            `${schulart ? ` for ${schulart}` : ""}${grade ? `, Klasse ${grade}` : ""} to a teacher new to it.`,
+          "",
+          "Use the MEM ontology tools:",
+          `1. Call find_lehrplaene with ${lehrplanArgs}. If several Lehrpläne match, list them and explain the one that fits best.`,
+          "2. Call get_lehrplan_tree on it with depth 2 and format \"outline\" for the overall structure.",
+          "3. Expand each Lernbereich with get_children (or get_lehrplan_tree on it) down to its Lernziele.",
+          "4. Summarise: how the Lehrplan is organised, the Lernbereiche with their main learning goals, " +
+            "and cross-cutting aims. Keep the Lehrplan's own terms and cite node URIs.",
+        ].join("\n")
+      );
+    }
+  );
+}
+
+// --- MCP Server ---
+
+// Connected servers and their sparql_query tool, updated when the graphs change
+const openServers = new Map<McpServer, RegisteredTool>();
+
+/**
+ * Create a server with all tools, resources and prompts. Each HTTP session
+ * gets its own instance; the SPARQL and vocabulary caches are shared.
+ */
+function createMcpServer(): McpServer {
+  const server = new McpServer({
+    name: "mem-ontology-server",
+    version: "0.0.1",
+  });
+  openServers.set(server, registerTools(server));
+  registerResources(server);
+  registerPrompts(server);
+  server.server.onclose = () => openServers.delete(server);
+  return server;
+}
+
+/**
+ * Tell connected clients about changed graphs: new sparql_query description
+ * and, unless only the cheat-sheet changed, new state listings.
+ */
+function updateOpenServers(resourcesChanged = true): void {
+  for (const [server, sparqlQuery] of openServers) {
+    if (!server.isConnected()) continue;
+    // update() sends notifications/tools/list_changed
+    sparqlQuery.update({ description: sparqlQueryDescription() });
+    if (resourcesChanged) server.sendResourceListChanged();
+  }
+}
+
+// --- Health and metrics ---
+
+const READINESS_TIMEOUT_MS = 5000;
+const READINESS_CACHE_MS = 5000;
+
+type GraphCheck = { graph: string; ok: boolean; error?: string };
+
+// The last readiness check, shared by concurrent probes and reused for a few
+// seconds so unauthenticated /readyz requests cannot flood the backend
+let readiness: { key: string; at: number; graphs: Promise<GraphCheck[]> } | undefined;
+
+/** Check with an ASK query that every configured graph exists and has triples. */
+async function checkGraphs(): Promise<GraphCheck[]> {
+  return Promise.all(
+    ALL_GRAPHS.map(async (graph) => {
+      try {
+        // Straight to the backend: a cached answer would say nothing about readiness
+        const result = await backend.select(`ASK ${fromClauses([graph])} WHERE { ?s ?p ?o }`, {
+          timeoutMs: READINESS_TIMEOUT_MS,
+        });
+        return result.boolean ? { graph, ok: true } : { graph, ok: false, error: "Graph is empty or missing" };
+      } catch (e) {
+        return { graph, ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+    })
+  );
+}
+
+/** The readiness of every configured graph, checked at most every READINESS_CACHE_MS. */
+function cachedCheckGraphs(): Promise<GraphCheck[]> {
+  const key = JSON.stringify(ALL_GRAPHS);
+  if (readiness?.key !== key || Date.now() - readiness.at > READINESS_CACHE_MS) {
+    readiness = { key, at: Date.now(), graphs: checkGraphs() };
+  }
+  return readiness.graphs;
+}
+
+createCollected("sparql_cache_hits_total", "Query cache hits.", "counter", () => cacheStats().hits);
+createCollected("sparql_cache_misses_total", "Query cache misses.", "counter", () => cacheStats().misses);
+createCollected("sparql_cache_entries", "Entries in the query cache.", "gauge", () => cacheStats().entries);
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
 
 // --- Start ---
 
-async function main() {
-  const portEnv = process.env.PORT ?? "3000";
-  const PORT = parseInt(portEnv, 10);
-  if (isNaN(PORT) || PORT < 1 || PORT > 65535) {
-    console.error(`Invalid PORT value: "${portEnv}". Must be a number between 1 and 65535.`);
-    process.exit(1);
+const TRANSPORTS = ["http", "stdio"] as const;
+type TransportKind = (typeof TRANSPORTS)[number];
+
+/** Read the transport from --transport (or --transport=...), falling back to the configuration. */
+function transportFromArgs(): TransportKind {
+  const { values } = parseArgs({
+    options: { transport: { type: "string", short: "t" } },
+    strict: true,
+  });
+  const value = (values.transport ?? config().server.transport).toLowerCase();
+  if (!(TRANSPORTS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid transport: "${value}". Use ${TRANSPORTS.join(" or ")}.`);
+  }
+  return value as TransportKind;
+}
+
+/** Discover state graphs if enabled, then recompute the graph lists. */
+async function discoverGraphs(): Promise<void> {
+  if (config().graphs.discovery) {
+    try {
+      discoveredGraphs = await discoverStateGraphs(BUNDESLAND_URI);
+      console.error(
+        `Discovered state graphs: ${Object.entries(discoveredGraphs).map(([c, g]) => `${c}=${g}`).join(", ") || "(none)"}`
+      );
+    } catch (e) {
+      console.error(`Graph discovery failed, keeping the previously known graphs: ${errorMessage(e)}`);
+    }
+  } else {
+    discoveredGraphs = {};
+  }
+  applyGraphConfig();
+}
+
+/**
+ * Discover state graphs if enabled, then validate the graph configuration.
+ * In strict mode at startup this waits for the validation and fails on
+ * errors; otherwise the issues are logged in the background.
+ */
+async function prepareGraphs(startup: boolean): Promise<void> {
+  await discoverGraphs();
+  const mode = config().graphs.validation;
+  if (mode === "off") return;
+
+  const validation = validateGraphs({
+    ontologyGraph: INFRA_GRAPHS[0],
+    infraGraphs: INFRA_GRAPHS,
+    stateGraphs: STATE_GRAPHS,
+    bundeslaender: BUNDESLAND_URI,
+  }).then((issues) => {
+    for (const issue of issues) console.error(`Graph check ${issue.severity}: ${issue.message}`);
+    if (issues.length === 0) console.error("Graph check: all configured graphs look fine");
+    return issues;
+  });
+  if (mode === "strict" && startup) {
+    const errors = (await validation).filter((i) => i.severity === "error");
+    if (errors.length > 0) {
+      throw new Error(`Graph check found ${errors.length} error(s); see above. Set GRAPH_VALIDATION=warn to start anyway.`);
+    }
+  }
+}
+
+function logConfiguration() {
+  console.error(backend.description);
+  console.error(`Infrastructure graphs: ${INFRA_GRAPHS.join(", ")}`);
+  console.error(
+    `State graphs: ${Object.entries(STATE_GRAPHS).map(([c, g]) => `${c}=${g}`).join(", ") || "(none)"}`
+  );
+}
+
+// Settings read once at startup; changing them in a reload needs a restart
+const RESTART_SETTINGS = [
+  "server.transport",
+  "server.port",
+  "server.maxSessions",
+  "server.sessionIdleTimeoutMs",
+  "limits.maxPageSize",
+  "limits.maxTreeNodes",
+  "synonymsFile",
+];
+
+const settingAt = (settings: Config, path: string) =>
+  path.split(".").reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], settings);
+
+/**
+ * Apply a reloaded configuration: re-run graph discovery and validation, then
+ * update connected clients. Reloading with discovery enabled picks up newly
+ * published graph versions even if the configuration itself is unchanged.
+ */
+function applyReload(next: Config, previous: Config): void {
+  const pending = RESTART_SETTINGS.filter(
+    (path) => JSON.stringify(settingAt(next, path)) !== JSON.stringify(settingAt(previous, path))
+  );
+  if (pending.length > 0) console.error(`Restart the server to apply: ${pending.join(", ")}`);
+
+  // The LIMIT cap is part of the sparql_query description
+  const limitChanged = next.limits.sparqlQueryMaxLimit !== previous.limits.sparqlQueryMaxLimit;
+  if (!sectionChanged(next, previous, "graphs") && !next.graphs.discovery) {
+    if (limitChanged) updateOpenServers();
+    return;
   }
+  const before = JSON.stringify([INFRA_GRAPHS, STATE_GRAPHS]);
+  prepareGraphs(false)
+    .then(() => {
+      const graphsChanged = JSON.stringify([INFRA_GRAPHS, STATE_GRAPHS]) !== before;
+      if (graphsChanged) {
+        logConfiguration();
+        preloadVocabularies();
+        loadCheatSheet();
+      }
+      if (graphsChanged || limitChanged) updateOpenServers();
+    })
+    .catch((e) => console.error("Could not apply the graph configuration:", errorMessage(e)));
+}
+
+/**
+ * Empty the query and diff caches and reload the vocabularies and the ontology
+ * description, for when the store changed under an unchanged graph URI.
+ */
+function flushCaches(): void {
+  flushCache();
+  flushDiffCache();
+  vocabularies.clear();
+  ontologyDescription = undefined;
+  preloadVocabularies();
+  loadCheatSheet();
+  console.error("Query cache flushed");
+}
+
+async function startStdio() {
+  // stdout carries the JSON-RPC stream, so anything logged by this process or
+  // its dependencies must go to stderr
+  console.log = console.info = console.debug = console.error;
+
+  await prepareGraphs(true);
+  await createMcpServer().connect(new StdioServerTransport());
+  console.error("MEM Ontology MCP Server running on stdio");
+  logConfiguration();
+  preloadVocabularies();
+  loadCheatSheet();
+}
 
-  const transport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: () => randomUUID(),
+async function startHttp() {
+  const { port: PORT, maxSessions, sessionIdleTimeoutMs } = config().server;
+
+  const sessions = createSessionManager({
+    createServer: createMcpServer,
+    maxSessions,
+    idleTimeoutMs: sessionIdleTimeoutMs,
+  });
+
+  let auth = createHttpAuth(authOptionsFromConfig(config()));
+  onConfigChange((next, previous) => {
+    if (!sectionChanged(next, previous, "auth") && next.server.publicUrl === previous.server.publicUrl) return;
+    // Rate-limit buckets and query slots start afresh with the new settings
+    auth.close();
+    auth = createHttpAuth(authOptionsFromConfig(next));
+    console.error(auth.enabled ? "Authentication: required" : "Authentication: disabled");
   });
+  await prepareGraphs(true);
 
-  await server.connect(transport);
+  createCollected("mcp_sessions", "Open MCP sessions.", "gauge", () => sessions.size());
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    // Probes stay unauthenticated so orchestrators can reach them
+    if (path === "/healthz") return sendJson(res, 200, { status: "ok" });
+    if (path === "/readyz") {
+      const graphs = await cachedCheckGraphs();
+      const ready = graphs.every((g) => g.ok);
+      return sendJson(res, ready ? 200 : 503, { status: ready ? "ready" : "not ready", graphs });
+    }
+    if (auth.handlePublicRequest(req, res)) return;
+
+    const client = await auth.admit(req, res);
+    if (!client) return;
+    if (path === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" }).end(renderMetrics());
+      return;
+    }
+    await runAsClient(client, () =>
+      sessions.handleRequest(req, res, auth.enabled ? client.id : undefined)
+    );
+  };
 
   const httpServer = createServer((req, res) => {
-    transport.handleRequest(req, res).catch((err) => {
+    handle(req, res).catch((err) => {
       console.error("Request handling error:", err);
       if (!res.headersSent) {
         res.writeHead(500).end("Internal Server Error");
@@ -630,14 +2513,104 @@ async function main() {
     process.exit(1);
   });
 
+  const shutdown = () => {
+    console.error("Shutting down");
+    httpServer.close();
+    sessions.closeAll().finally(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
   httpServer.listen(PORT, () => {
     console.error(`MEM Ontology MCP Server running on HTTP port ${PORT}`);
-    console.error(`SPARQL endpoint: ${SPARQL_ENDPOINT}`);
-    console.error(`Infrastructure graphs: ${INFRA_GRAPHS.join(", ")}`);
-    console.error(
-      `State graphs: ${Object.entries(STATE_GRAPHS).map(([c, g]) => `${c}=${g}`).join(", ") || "(none)"}`
-    );
+    console.error(auth.enabled ? "Authentication: required" : "Authentication: disabled");
+    logConfiguration();
+    preloadVocabularies();
+    loadCheatSheet();
+  });
+}
+
+const EXPORT_USAGE =
+  `Usage: mem-ontology-server export <lehrplanUri> [--format ${EXPORT_FORMATS.join("|")}] [--output <file>]`;
+
+/** The export command: write one Lehrplan export to a file or stdout, then exit. */
+async function runExport(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      format: { type: "string", short: "f", default: "markdown" },
+      output: { type: "string", short: "o" },
+    },
+    allowPositionals: true,
+    strict: true,
   });
+  const format = values.format.toLowerCase();
+  if (positionals.length !== 1 || !(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(EXPORT_USAGE);
+  }
+  // Without --output, stdout carries the document
+  console.log = console.info = console.debug = console.error;
+
+  await discoverGraphs();
+  const exported = await exportLehrplan(positionals[0], format as ExportFormat);
+  if (values.output) {
+    await writeFile(values.output, exported.document);
+    console.error(`Exported ${exported.nodeCount} nodes to ${values.output}`);
+  } else {
+    process.stdout.write(exported.document);
+  }
+  if (exported.truncated) {
+    console.error(`Export stopped at ${exported.nodeCount} nodes; raise EXPORT_MAX_NODES to export all parts.`);
+  }
+}
+
+const DIFF_USAGE =
+  `Usage: mem-ontology-server diff <oldGraph> <newGraph> [--format ${DIFF_FORMATS.join("|")}] [--output <file>]`;
+
+/** The diff command: write the changes between two state graph releases to a file or stdout, then exit. */
+async function runDiff(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      format: { type: "string", short: "f", default: "markdown" },
+      output: { type: "string", short: "o" },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+  const format = values.format.toLowerCase();
+  if (positionals.length !== 2 || !(DIFF_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(DIFF_USAGE);
+  }
+  // Without --output, stdout carries the report
+  console.log = console.info = console.debug = console.error;
+
+  await discoverGraphs();
+  const diff = await diffStateGraphs(positionals[0], positionals[1]);
+  const report = renderDiff(diff, format as DiffFormat);
+  if (values.output) {
+    await writeFile(values.output, report);
+    console.error(renderDiffSummary(diff));
+    console.error(`Wrote ${diff.changes.length} changes to ${values.output}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === "export") return runExport(args);
+  if (command === "diff") return runDiff(args);
+
+  const transport = transportFromArgs();
+  onConfigChange(applyReload);
+  watchConfig();
+  process.on("SIGUSR2", flushCaches);
+  if (transport === "stdio") {
+    await startStdio();
+  } else {
+    await startHttp();
+  }
 }
 
 main().catch((error) => {
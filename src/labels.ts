@@ -0,0 +1,46 @@
+import { querySparql } from "./sparql.js";
+import { isValidIri, selectQuery, triple, valuesIris } from "./query-builder.js";
+
+// URIs per VALUES block, to keep individual queries small
+const LABEL_BATCH_SIZE = 100;
+
+// Preferred label languages, best first; "" is an untagged literal
+const LANGUAGE_PREFERENCE = ["de", "", "en"];
+
+function languageRank(lang: string | undefined): number {
+  const index = LANGUAGE_PREFERENCE.indexOf((lang ?? "").toLowerCase());
+  return index === -1 ? LANGUAGE_PREFERENCE.length : index;
+}
+
+/**
+ * Look up rdfs:label for many URIs at once. Prefers German labels, then
+ * untagged, then English. URIs without a label are absent from the map.
+ */
+export async function fetchLabels(
+  uris: Iterable<string>,
+  graphs: string[]
+): Promise<Map<string, string>> {
+  const unique = [...new Set(uris)].filter(isValidIri);
+  const labels = new Map<string, string>();
+  const ranks = new Map<string, number>();
+
+  for (let i = 0; i < unique.length; i += LABEL_BATCH_SIZE) {
+    const batch = unique.slice(i, i + LABEL_BATCH_SIZE);
+    const results = await querySparql(
+      selectQuery({
+        select: ["?uri", "?label"],
+        from: graphs,
+        where: [valuesIris("uri", batch), triple("?uri", "rdfs:label", "?label")],
+      })
+    );
+    for (const b of results.results.bindings) {
+      const uri = b.uri.value;
+      const rank = languageRank(b.label["xml:lang"]);
+      if (rank < (ranks.get(uri) ?? Infinity)) {
+        ranks.set(uri, rank);
+        labels.set(uri, b.label.value);
+      }
+    }
+  }
+  return labels;
+}
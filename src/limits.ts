@@ -0,0 +1,112 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// --- Per-client request rate and SPARQL concurrency limits ---
+
+/** Counting semaphore with a bounded wait queue. */
+export interface Semaphore {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  /** True if nothing is running or waiting. */
+  idle(): boolean;
+}
+
+export class LimitExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LimitExceededError";
+  }
+}
+
+/**
+ * Allow at most `limit` tasks at a time. Up to `maxWaiting` further tasks
+ * wait for a free slot; beyond that, run() rejects with LimitExceededError.
+ */
+export function createSemaphore(limit: number, maxWaiting: number): Semaphore {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return {
+    async run(task) {
+      if (active >= limit) {
+        if (waiting.length >= maxWaiting) {
+          throw new LimitExceededError(
+            `Too many concurrent SPARQL queries (limit ${limit}). Retry when earlier queries have finished.`
+          );
+        }
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      } else {
+        active++;
+      }
+      try {
+        return await task();
+      } finally {
+        // Hand the slot straight to the next waiter, if any
+        const next = waiting.shift();
+        if (next) next();
+        else active--;
+      }
+    },
+    idle() {
+      return active === 0 && waiting.length === 0;
+    },
+  };
+}
+
+export interface RateLimiter {
+  /** Take one request from the key's budget; returns seconds to wait if exhausted, else 0. */
+  take(key: string): number;
+}
+
+/**
+ * Token bucket per key: up to perMinute requests in a burst, refilled
+ * continuously at perMinute per minute. perMinute 0 disables the limit.
+ */
+export function createRateLimiter(perMinute: number): RateLimiter {
+  const buckets = new Map<string, { tokens: number; updated: number }>();
+  const refillPerMs = perMinute / 60_000;
+
+  // Full buckets carry no state worth keeping
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updated) * refillPerMs >= perMinute) buckets.delete(key);
+    }
+  }, 60_000);
+  sweep.unref();
+
+  return {
+    take(key) {
+      if (perMinute === 0) return 0;
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: perMinute, updated: now };
+      bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updated) * refillPerMs);
+      bucket.updated = now;
+      buckets.set(key, bucket);
+      if (bucket.tokens < 1) return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+      bucket.tokens -= 1;
+      return 0;
+    },
+  };
+}
+
+/** The authenticated client (or remote address) a request is handled for. */
+export interface RequestClient {
+  id: string;
+  /** Limits the client's concurrent queries to the SPARQL backend */
+  querySlots: Semaphore;
+}
+
+const clientStorage = new AsyncLocalStorage<RequestClient>();
+
+/** Run fn with `client` as the current client, including everything it awaits. */
+export function runAsClient<T>(client: RequestClient, fn: () => T): T {
+  return clientStorage.run(client, fn);
+}
+
+/**
+ * Run a backend query within the current client's concurrency limit.
+ * Without a client (stdio, startup preloading) the query runs directly.
+ */
+export function withQuerySlot<T>(query: () => Promise<T>): Promise<T> {
+  const client = clientStorage.getStore();
+  return client ? client.querySlots.run(query) : query();
+}
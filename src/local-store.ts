@@ -0,0 +1,109 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import oxigraph, { type Store } from "oxigraph";
+import type { SparqlBackend, SparqlResults } from "./sparql.js";
+import { STANDARD_PREFIXES } from "./query-builder.js";
+import { SparqlError, SparqlSyntaxError } from "./sparql-errors.js";
+
+/** A set of RDF dump files to be loaded into one named graph. */
+export interface LocalDump {
+  graph: string;
+  files: string[];
+}
+
+// The tool queries rely on Virtuoso's predeclared prefixes, so they are
+// prepended to every query sent to the local store.
+const PREFIX_DECLARATIONS = Object.entries(STANDARD_PREFIXES)
+  .map(([prefix, ns]) => `PREFIX ${prefix}: <${ns}>\n`)
+  .join("");
+const PREFIX_LINE_COUNT = Object.keys(STANDARD_PREFIXES).length;
+
+const FORMAT_BY_EXTENSION: Record<string, string> = {
+  ".ttl": "text/turtle",
+  ".nt": "application/n-triples",
+  ".n3": "text/n3",
+  ".rdf": "application/rdf+xml",
+  ".owl": "application/rdf+xml",
+};
+
+function formatForFile(file: string): string {
+  const format = FORMAT_BY_EXTENSION[extname(file).toLowerCase()];
+  if (!format) {
+    throw new Error(
+      `Unsupported dump file "${file}". Use Turtle (.ttl), N-Triples (.nt), N3 (.n3) or RDF/XML (.rdf, .owl).`
+    );
+  }
+  return format;
+}
+
+async function loadStore(dumps: LocalDump[]): Promise<Store> {
+  const store = new oxigraph.Store();
+  for (const { graph, files } of dumps) {
+    for (const file of files) {
+      const data = await readFile(file, "utf-8");
+      try {
+        store.load(data, {
+          format: formatForFile(file),
+          base_iri: graph,
+          to_graph_name: oxigraph.namedNode(graph),
+        });
+      } catch (e) {
+        throw new Error(
+          `Failed to load "${file}" into <${graph}>: ${e instanceof Error ? e.message : String(e)}`
+        );
+      }
+    }
+  }
+  return store;
+}
+
+/**
+ * In-process backend backed by an Oxigraph store. Dumps are loaded on the
+ * first query so that startup stays fast and load errors surface as tool errors.
+ */
+export function createLocalBackend(dumps: LocalDump[]): SparqlBackend {
+  if (dumps.length === 0) {
+    throw new Error(
+      "SPARQL_BACKEND=local requires at least one LOCAL_DUMP_<NAME> variable. See .env.example for reference."
+    );
+  }
+
+  let store: Promise<Store> | undefined;
+
+  async function run(query: string, resultsFormat: string): Promise<string> {
+    store ??= loadStore(dumps).catch((e) => {
+      // Allow the next query to retry, e.g. after a dump file was fixed
+      store = undefined;
+      throw e;
+    });
+    const loaded = await store;
+    try {
+      return loaded.query(PREFIX_DECLARATIONS + query, {
+        results_format: resultsFormat,
+      }) as string;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      // Oxigraph parser errors read "error at <line>:<column>: ..."; report
+      // the line within the query as sent, without the prepended prefixes
+      const position = /^error at (\d+):(\d+)/.exec(message);
+      if (position) {
+        const line = Number(position[1]) - PREFIX_LINE_COUNT;
+        throw new SparqlSyntaxError(message.replace(position[0], `error at ${line}:${position[2]}`));
+      }
+      throw new SparqlError(`SPARQL query failed (local): ${message}`);
+    }
+  }
+
+  return {
+    description: `Local store: ${dumps.map((d) => `${d.graph} <- ${d.files.join(", ")}`).join("; ")}`,
+    supportsBifContains: false,
+    // Oxigraph evaluates synchronously, so timeouts are not enforced here.
+    async select(query) {
+      const json = await run(query, "application/sparql-results+json");
+      return JSON.parse(json) as SparqlResults;
+    },
+    async construct(query) {
+      return run(query, "text/turtle");
+    },
+  };
+}
@@ -0,0 +1,163 @@
+// --- Prometheus metrics in the text exposition format ---
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export function createCounter(name: string, help: string): Counter {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () => [...values.values()].map((v) => `${name}${formatLabels(v.labels)} ${v.value}`),
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = labelKey(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      values.set(key, entry);
+    },
+  };
+}
+
+/** A metric read at scrape time, e.g. from counters kept elsewhere. */
+export function createCollected(
+  name: string,
+  help: string,
+  type: "counter" | "gauge",
+  collect: () => number
+): void {
+  registry.push({ name, help, type, render: () => [`${name} ${collect()}`] });
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void;
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap((s) => [
+        ...buckets.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${s.sum}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+  return {
+    observe(value, labels = {}) {
+      const key = labelKey(labels);
+      const s = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((le, i) => {
+        if (value <= le) s.counts[i]++;
+      });
+      s.sum += value;
+      s.count++;
+      series.set(key, s);
+    },
+  };
+}
+
+/** All registered metrics in the Prometheus text format. */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join("\n") + "\n";
+}
+
+// --- Tool and SPARQL metrics ---
+
+const toolCalls = createCounter("mcp_tool_calls_total", "Tool calls by tool name.");
+const toolErrors = createCounter("mcp_tool_errors_total", "Tool calls that failed or returned an error result.");
+const toolDuration = createHistogram(
+  "mcp_tool_duration_seconds",
+  "Tool call duration in seconds.",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+const sparqlDuration = createHistogram(
+  "sparql_query_duration_seconds",
+  "Duration of queries sent to the SPARQL backend, excluding cache hits.",
+  [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+const sparqlRows = createHistogram(
+  "sparql_result_rows",
+  "Rows returned by SELECT queries sent to the SPARQL backend.",
+  [0, 1, 10, 50, 100, 500, 1000, 5000]
+);
+const sparqlBytes = createHistogram(
+  "sparql_result_bytes",
+  "Size of Turtle returned by CONSTRUCT and DESCRIBE queries.",
+  [1_000, 10_000, 100_000, 1_000_000, 10_000_000]
+);
+
+/**
+ * Time a backend query and record its outcome and result size. `kind` is
+ * "select" or "construct".
+ */
+export async function observeQuery<T>(kind: "select" | "construct", run: () => Promise<T>): Promise<T> {
+  const start = performance.now();
+  let outcome = "error";
+  try {
+    const result = await run();
+    outcome = "ok";
+    if (typeof result === "string") {
+      sparqlBytes.observe(Buffer.byteLength(result));
+    } else {
+      const bindings = (result as { results?: { bindings?: unknown[] } }).results?.bindings;
+      if (bindings) sparqlRows.observe(bindings.length);
+    }
+    return result;
+  } finally {
+    sparqlDuration.observe((performance.now() - start) / 1000, { kind, outcome });
+  }
+}
+
+/** Count a tool call, its duration, and whether it failed or returned an error result. */
+export async function observeToolCall<T>(tool: string, run: () => Promise<T>): Promise<T> {
+  const start = performance.now();
+  toolCalls.inc({ tool });
+  try {
+    const result = await run();
+    if ((result as { isError?: boolean }).isError) toolErrors.inc({ tool });
+    return result;
+  } catch (e) {
+    toolErrors.inc({ tool });
+    throw e;
+  } finally {
+    toolDuration.observe((performance.now() - start) / 1000, { tool });
+  }
+}
@@ -0,0 +1,364 @@
+import { z } from "zod";
+import { querySparql, type SparqlBinding } from "./sparql.js";
+import { LP_NAMESPACE, STANDARD_PREFIXES, iri, selectQuery, triple } from "./query-builder.js";
+import { fetchLabels } from "./labels.js";
+import { normalizeName, rankEntries } from "./resolve.js";
+
+// --- Classes of the ontology graph ---
+
+export interface OntologyClass {
+  uri: string;
+  label?: string;
+  /** Direct superclasses (rdfs:subClassOf), named classes only */
+  parents: string[];
+}
+
+/** Classes declared in the ontology graph (owl:Class or rdfs:Class), by URI. */
+export async function fetchOntologyClasses(ontologyGraph: string): Promise<Map<string, OntologyClass>> {
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?class", "?parent"],
+      from: [ontologyGraph],
+      where: [
+        "VALUES ?kind { owl:Class rdfs:Class }",
+        triple("?class", "rdf:type", "?kind"),
+        `OPTIONAL { ${triple("?class", "rdfs:subClassOf", "?parent")} FILTER(isIRI(?parent)) }`,
+        "FILTER(isIRI(?class))",
+      ],
+    })
+  );
+  const classes = new Map<string, OntologyClass>();
+  for (const b of results.results.bindings) {
+    const entry = classes.get(b.class.value) ?? { uri: b.class.value, parents: [] };
+    if (b.parent && !entry.parents.includes(b.parent.value)) entry.parents.push(b.parent.value);
+    classes.set(entry.uri, entry);
+  }
+  const labels = await fetchLabels(classes.keys(), [ontologyGraph]);
+  for (const entry of classes.values()) entry.label = labels.get(entry.uri);
+  return classes;
+}
+
+/** Whether a class is the other class or one of its subclasses. */
+export function isSubclassOf(classes: Map<string, OntologyClass>, uri: string, ancestor: string): boolean {
+  const seen = new Set<string>();
+  const pending = [uri];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === ancestor) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    pending.push(...(classes.get(current)?.parents ?? []));
+  }
+  return false;
+}
+
+/**
+ * Resolve a class given as URI, local name (LP_0000438) or label
+ * ("Lernziel", case- and umlaut-insensitive) to its URI.
+ */
+export function resolveClass(classes: Map<string, OntologyClass>, input: string): string {
+  const trimmed = input.trim();
+  if (/^https?:\/\//.test(trimmed)) {
+    iri(trimmed);
+    return trimmed;
+  }
+  if (classes.has(LP_NAMESPACE + trimmed)) return LP_NAMESPACE + trimmed;
+
+  const wanted = normalizeName(trimmed);
+  const matches = [...classes.values()].filter((c) => c.label && normalizeName(c.label) === wanted);
+  if (matches.length === 1) return matches[0].uri;
+  if (matches.length > 1) {
+    throw new Error(
+      `Class "${input}" is ambiguous: ${matches.map((c) => `<${c.uri}>`).join(", ")}. Use the class URI.`
+    );
+  }
+
+  const labelled = [...classes.values()].flatMap((c) => (c.label ? [{ uri: c.uri, label: c.label }] : []));
+  const closest = rankEntries(trimmed, labelled, {}).slice(0, 5);
+  const hint = closest.length > 0 ? ` Closest: ${closest.map((c) => `"${c.label}"`).join(", ")}.` : "";
+  throw new Error(`Class "${input}" not found in the ontology.${hint}`);
+}
+
+// --- Ontology description for describe_ontology and the sparql_query cheat-sheet ---
+
+export interface TermLabels {
+  de?: string;
+  en?: string;
+}
+
+export interface ClassDescription {
+  uri: string;
+  labels: TermLabels;
+  parents: string[];
+  /** Instances per Bundesland code, for state graphs that have any */
+  instances: Record<string, number>;
+}
+
+export interface PropertyDescription {
+  uri: string;
+  /** owl:ObjectProperty, owl:DatatypeProperty, ... as prefixed names */
+  kinds: string[];
+  labels: TermLabels;
+  domain: string[];
+  range: string[];
+  /** Triples using the property per Bundesland code, for state graphs that have any */
+  usage: Record<string, number>;
+}
+
+export interface OntologyDescription {
+  classes: ClassDescription[];
+  properties: PropertyDescription[];
+}
+
+const termLabelsSchema = z.object({ de: z.string().optional(), en: z.string().optional() });
+const countsSchema = z.record(z.string(), z.number().int());
+
+export const ontologyOutputShape = {
+  classes: z.array(
+    z.object({
+      uri: z.string(),
+      labels: termLabelsSchema,
+      parents: z.array(z.string()).describe("Direct superclasses (rdfs:subClassOf)"),
+      instances: countsSchema.describe("Instances per Bundesland code"),
+    })
+  ),
+  properties: z.array(
+    z.object({
+      uri: z.string(),
+      kinds: z.array(z.string()).describe("owl:ObjectProperty, owl:DatatypeProperty, owl:AnnotationProperty or rdf:Property"),
+      labels: termLabelsSchema,
+      domain: z.array(z.string()),
+      range: z.array(z.string()),
+      usage: countsSchema.describe("Triples using the property per Bundesland code"),
+    })
+  ),
+};
+
+const PROPERTY_KINDS = ["owl:ObjectProperty", "owl:DatatypeProperty", "owl:AnnotationProperty", "rdf:Property"];
+
+// Properties and classes listed in the sparql_query cheat-sheet
+const CHEAT_SHEET_PROPERTIES = 25;
+const CHEAT_SHEET_CLASSES = 10;
+
+/** German and English rdfs:label of each term; untagged labels count as German. */
+async function fetchTermLabels(uris: string[], graph: string): Promise<Map<string, TermLabels>> {
+  const labels = new Map<string, TermLabels>(uris.map((uri) => [uri, {}]));
+  if (uris.length === 0) return labels;
+  const results = await querySparql(
+    selectQuery({
+      select: ["?uri", "?label"],
+      from: [graph],
+      where: [
+        `VALUES ?uri { ${uris.map(iri).join(" ")} }`,
+        triple("?uri", "rdfs:label", "?label"),
+      ],
+    })
+  );
+  for (const b of results.results.bindings) {
+    const entry = labels.get(b.uri.value)!;
+    const lang = (b.label["xml:lang"] ?? "").toLowerCase();
+    if (lang === "en") entry.en ??= b.label.value;
+    else if (lang === "de") entry.de = b.label.value;
+    else entry.de ??= b.label.value;
+  }
+  return labels;
+}
+
+/** Counts per term in one state graph, from a query selecting ?term and ?n. */
+async function countsByTerm(query: string): Promise<Map<string, number>> {
+  const results = await querySparql(query);
+  return new Map(results.results.bindings.map((b) => [b.term.value, Number(b.n.value)]));
+}
+
+/** Prefixed name for terms in the lp: or standard namespaces, else <uri>. */
+export function shortIri(uri: string): string {
+  if (uri.startsWith(LP_NAMESPACE)) return `lp:${uri.slice(LP_NAMESPACE.length)}`;
+  for (const [prefix, namespace] of Object.entries(STANDARD_PREFIXES)) {
+    if (uri.startsWith(namespace)) return `${prefix}:${uri.slice(namespace.length)}`;
+  }
+  return `<${uri}>`;
+}
+
+/**
+ * Classes and properties declared in the ontology graph, with labels,
+ * domain and range, and how often each is used in every state graph.
+ */
+export async function describeOntology(
+  ontologyGraph: string,
+  stateGraphs: Record<string, string>
+): Promise<OntologyDescription> {
+  const classes = await fetchOntologyClasses(ontologyGraph);
+
+  const declared = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?property", "?kind", "?domain", "?range"],
+      from: [ontologyGraph],
+      where: [
+        `VALUES ?kind { ${PROPERTY_KINDS.join(" ")} }`,
+        triple("?property", "rdf:type", "?kind"),
+        `OPTIONAL { ${triple("?property", "rdfs:domain", "?domain")} FILTER(isIRI(?domain)) }`,
+        `OPTIONAL { ${triple("?property", "rdfs:range", "?range")} FILTER(isIRI(?range)) }`,
+        "FILTER(isIRI(?property))",
+      ],
+    })
+  );
+  const properties = new Map<string, PropertyDescription>();
+  const addUnique = (list: string[], value?: string) => {
+    if (value !== undefined && !list.includes(value)) list.push(value);
+  };
+  for (const b of declared.results.bindings) {
+    const entry = properties.get(b.property.value) ?? {
+      uri: b.property.value,
+      kinds: [],
+      labels: {},
+      domain: [],
+      range: [],
+      usage: {},
+    };
+    addUnique(entry.kinds, shortIri(b.kind.value));
+    addUnique(entry.domain, b.domain?.value);
+    addUnique(entry.range, b.range?.value);
+    properties.set(entry.uri, entry);
+  }
+
+  const labels = await fetchTermLabels([...classes.keys(), ...properties.keys()], ontologyGraph);
+  const classDescriptions = [...classes.values()].map((c) => ({
+    uri: c.uri,
+    labels: labels.get(c.uri) ?? {},
+    parents: c.parents,
+    instances: {} as Record<string, number>,
+  }));
+  for (const entry of properties.values()) entry.labels = labels.get(entry.uri) ?? {};
+
+  for (const [code, graph] of Object.entries(stateGraphs)) {
+    const usage = await countsByTerm(
+      selectQuery({
+        select: ["?term", "(COUNT(*) AS ?n)"],
+        from: [graph],
+        where: [triple("?s", "?term", "?o")],
+        groupBy: ["?term"],
+      })
+    );
+    for (const entry of properties.values()) {
+      const n = usage.get(entry.uri);
+      if (n) entry.usage[code] = n;
+    }
+    const instances = await countsByTerm(
+      selectQuery({
+        select: ["?term", "(COUNT(DISTINCT ?s) AS ?n)"],
+        from: [graph],
+        where: [triple("?s", "rdf:type", "?term")],
+        groupBy: ["?term"],
+      })
+    );
+    for (const entry of classDescriptions) {
+      const n = instances.get(entry.uri);
+      if (n) entry.instances[code] = n;
+    }
+  }
+
+  const byUri = (a: { uri: string }, b: { uri: string }) => a.uri.localeCompare(b.uri, undefined, { numeric: true });
+  return { classes: classDescriptions.sort(byUri), properties: [...properties.values()].sort(byUri) };
+}
+
+const total = (counts: Record<string, number>) => Object.values(counts).reduce((a, b) => a + b, 0);
+
+/** The German label, else the English one, in quotes. */
+function quotedLabel(labels: TermLabels): string {
+  const label = labels.de ?? labels.en;
+  return label ? ` "${label}"` : "";
+}
+
+/**
+ * Short reference of the most used properties and classes, for the
+ * sparql_query description, e.g. lp:LP_0000008 "hat Teil" (Lehrplan -> ...).
+ */
+export function ontologyCheatSheet(description: OntologyDescription): string {
+  const classLabel = new Map(description.classes.map((c) => [c.uri, c.labels.de ?? c.labels.en]));
+  const termName = (uri: string) => classLabel.get(uri) ?? shortIri(uri);
+
+  const properties = description.properties
+    .filter((p) => total(p.usage) > 0)
+    .sort((a, b) => total(b.usage) - total(a.usage))
+    .slice(0, CHEAT_SHEET_PROPERTIES)
+    .map((p) => {
+      const signature =
+        p.domain.length || p.range.length
+          ? ` (${p.domain.map(termName).join("|") || "?"} -> ${p.range.map(termName).join("|") || "?"})`
+          : "";
+      return `${shortIri(p.uri)}${quotedLabel(p.labels)}${signature}`;
+    });
+  const classes = description.classes
+    .filter((c) => total(c.instances) > 0)
+    .sort((a, b) => total(b.instances) - total(a.instances))
+    .slice(0, CHEAT_SHEET_CLASSES)
+    .map((c) => `${shortIri(c.uri)}${quotedLabel(c.labels)}`);
+
+  const parts = [];
+  if (properties.length) parts.push(`Most used properties: ${properties.join("; ")}.`);
+  if (classes.length) parts.push(`Most used classes: ${classes.join("; ")}.`);
+  return parts.join(" ");
+}
+
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .map(([code, n]) => `${code} ${n}`)
+    .join(", ");
+
+/**
+ * Class hierarchy as an indented outline; classes with several
+ * superclasses appear under each of them.
+ */
+export function renderClassHierarchy(classes: ClassDescription[]): string {
+  const known = new Set(classes.map((c) => c.uri));
+  const children = new Map<string, ClassDescription[]>();
+  const roots: ClassDescription[] = [];
+  for (const entry of classes) {
+    const parents = entry.parents.filter((p) => known.has(p) && p !== entry.uri);
+    if (parents.length === 0) roots.push(entry);
+    for (const parent of parents) children.set(parent, [...(children.get(parent) ?? []), entry]);
+  }
+
+  const lines: string[] = [];
+  const visit = (entry: ClassDescription, depth: number, ancestors: Set<string>) => {
+    const instances = total(entry.instances);
+    lines.push(
+      `${"  ".repeat(depth)}- ${entry.labels.de ?? entry.labels.en ?? shortIri(entry.uri)} (${shortIri(entry.uri)})` +
+        (instances > 0 ? `: ${instances} ${instances === 1 ? "instance" : "instances"}` : "")
+    );
+    // Cycles in rdfs:subClassOf end at the class already on the path
+    for (const child of children.get(entry.uri) ?? []) {
+      if (!ancestors.has(child.uri)) visit(child, depth + 1, new Set([...ancestors, child.uri]));
+    }
+  };
+  for (const root of roots) visit(root, 0, new Set([root.uri]));
+  return lines.join("\n");
+}
+
+/** One row per class and property, for table, markdown and csv output. */
+export function ontologyRows(description: OntologyDescription): Record<string, SparqlBinding>[] {
+  const text = (value: string): SparqlBinding => ({ type: "literal", value });
+  const classRows = description.classes.map((c) => ({
+    term: { type: "uri", value: c.uri },
+    kind: text("owl:Class"),
+    label_de: text(c.labels.de ?? ""),
+    label_en: text(c.labels.en ?? ""),
+    subClassOf: text(c.parents.map(shortIri).join(" ")),
+    domain: text(""),
+    range: text(""),
+    usage: text(formatCounts(c.instances)),
+  }));
+  const propertyRows = description.properties.map((p) => ({
+    term: { type: "uri", value: p.uri },
+    kind: text(p.kinds.join(" ")),
+    label_de: text(p.labels.de ?? ""),
+    label_en: text(p.labels.en ?? ""),
+    subClassOf: text(""),
+    domain: text(p.domain.map(shortIri).join(" ")),
+    range: text(p.range.map(shortIri).join(" ")),
+    usage: text(formatCounts(p.usage)),
+  }));
+  return [...classRows, ...propertyRows];
+}
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import type { SparqlBinding, SparqlResults } from "./sparql.js";
+
+// --- Output formats for tool results ---
+
+export const OUTPUT_FORMATS = ["table", "json", "csv", "markdown"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Shared `format` tool argument. */
+export const formatArg = z
+  .enum(OUTPUT_FORMATS)
+  .default("table")
+  .describe(
+    "Text output format: table (pipe-separated, default), json, csv or markdown. " +
+      "Structured results are always returned as well."
+  );
+
+// --- Structured content schemas ---
+
+/** A single RDF term as returned in SPARQL JSON results. */
+export const bindingSchema = z.object({
+  type: z.string().describe("uri, literal, typed-literal or bnode"),
+  value: z.string(),
+  "xml:lang": z.string().optional(),
+  datatype: z.string().optional(),
+});
+
+/** Output schema shape shared by all tools that return a result table. */
+export const resultsOutputShape = {
+  vars: z.array(z.string()).describe("Column names, in order"),
+  rows: z
+    .array(z.record(z.string(), bindingSchema))
+    .describe("One object per result row, keyed by column name. Unbound columns are omitted."),
+};
+
+export interface StructuredResults {
+  [key: string]: unknown;
+  vars: string[];
+  rows: Record<string, SparqlBinding>[];
+}
+
+export function toStructured(results: SparqlResults): StructuredResults {
+  return {
+    vars: results.head.vars ?? [],
+    rows: results.results?.bindings ?? [],
+  };
+}
+
+// --- Text rendering ---
+
+export function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/** Render a result table in the requested text format. */
+export function renderTable(
+  vars: string[],
+  rows: Record<string, SparqlBinding>[],
+  format: Exclude<OutputFormat, "json">
+): string {
+  const cells = rows.map((row) => vars.map((v) => row[v]?.value ?? ""));
+
+  switch (format) {
+    case "csv":
+      return [vars, ...cells]
+        .map((line) => line.map(csvCell).join(","))
+        .join("\r\n");
+    case "markdown":
+      if (rows.length === 0) return "No results.";
+      return [
+        `| ${vars.map(markdownCell).join(" | ")} |`,
+        `| ${vars.map(() => "---").join(" | ")} |`,
+        ...cells.map((line) => `| ${line.map(markdownCell).join(" | ")} |`),
+      ].join("\n");
+    case "table":
+      if (rows.length === 0) return "No results.";
+      return [vars.join(" | "), "---", ...cells.map((line) => line.join(" | "))].join("\n");
+  }
+}
+
+export interface ToolResultOptions {
+  /** Prepended to table and markdown text, e.g. a heading for the node */
+  title?: string;
+  /** Appended to table and markdown text, e.g. a hint about truncation */
+  note?: string;
+  /** Replaces "No results." in table and markdown text */
+  empty?: string;
+}
+
+/**
+ * Build a tool result carrying both structuredContent and a text rendering.
+ * Titles, notes and empty-result messages only apply to table and markdown output, so
+ * that json and csv stay machine-readable.
+ */
+export function toolResult<T extends StructuredResults>(
+  structured: T,
+  format: OutputFormat,
+  options: ToolResultOptions = {}
+) {
+  let text: string;
+  if (format === "json") {
+    text = JSON.stringify(structured, null, 2);
+  } else if (format === "csv") {
+    text = renderTable(structured.vars, structured.rows, format);
+  } else if (structured.rows.length === 0 && options.empty) {
+    text = options.empty;
+  } else {
+    text = renderTable(structured.vars, structured.rows, format);
+    if (options.note) text += `\n\n${options.note}`;
+  }
+  if (options.title && (format === "table" || format === "markdown")) {
+    text = `${options.title}\n\n${text}`;
+  }
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent: structured,
+  };
+}
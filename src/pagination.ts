@@ -0,0 +1,97 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { config } from "./config.js";
+import type { SparqlResults } from "./sparql.js";
+
+// --- Cursor-based pagination for list-style tools ---
+
+export const DEFAULT_PAGE_SIZE = 50;
+// Part of the tool schemas, so a changed value takes effect on restart
+export const MAX_PAGE_SIZE = config().limits.maxPageSize;
+
+/** Shared `limit` and `cursor` tool arguments. */
+export const pageArgs = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE)
+    .describe(`Page size (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Opaque cursor from a previous response's nextCursor to fetch the next page"),
+};
+
+export const pageOutputShape = {
+  nextCursor: z
+    .string()
+    .optional()
+    .describe("Pass as cursor to fetch the next page; absent on the last page"),
+};
+
+interface CursorPayload {
+  /** Offset of the next page */
+  o: number;
+  /** Fingerprint of the query arguments the cursor belongs to */
+  k: string;
+}
+
+/** Fingerprint the arguments that define a result set (excluding paging). */
+function fingerprint(args: unknown): string {
+  return createHash("sha256").update(JSON.stringify(args)).digest("hex").slice(0, 16);
+}
+
+export function encodeCursor(offset: number, args: unknown): string {
+  const payload: CursorPayload = { o: offset, k: fingerprint(args) };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decode a cursor to its offset. Cursors are only valid for the same tool
+ * arguments they were issued for.
+ */
+export function decodeCursor(cursor: string | undefined, args: unknown): number {
+  if (!cursor) return 0;
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor. Use the nextCursor value from a previous response.");
+  }
+  if (typeof payload.o !== "number" || !Number.isSafeInteger(payload.o) || payload.o < 0) {
+    throw new Error("Invalid cursor. Use the nextCursor value from a previous response.");
+  }
+  if (payload.k !== fingerprint(args)) {
+    throw new Error(
+      "Cursor does not match these arguments. Repeat the call with the same filters, or omit cursor to start over."
+    );
+  }
+  return payload.o;
+}
+
+/**
+ * Trim a result set fetched with LIMIT pageSize + 1 to the page size and
+ * compute the cursor for the next page, if any.
+ */
+export function paginate(
+  results: SparqlResults,
+  offset: number,
+  pageSize: number,
+  args: unknown
+): { results: SparqlResults; nextCursor?: string } {
+  const bindings = results.results.bindings;
+  if (bindings.length <= pageSize) return { results };
+  return {
+    results: { ...results, results: { bindings: bindings.slice(0, pageSize) } },
+    nextCursor: encodeCursor(offset + pageSize, args),
+  };
+}
+
+/** Text note pointing to the next page. */
+export function nextPageNote(nextCursor: string | undefined): string | undefined {
+  return nextCursor
+    ? `(More results available. Call again with cursor "${nextCursor}" to fetch the next page.)`
+    : undefined;
+}
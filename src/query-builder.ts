@@ -0,0 +1,141 @@
+// Small typed helpers for assembling SPARQL queries. Every value that may
+// originate from user input must pass through iri() or literal() before it is
+// placed in a query string.
+
+export const LP_NAMESPACE = "https://w3id.org/lehrplan/ontology/";
+
+const LP_PREFIX = `PREFIX lp: <${LP_NAMESPACE}>`;
+
+/** Prefixes that Virtuoso predeclares and that tool queries rely on. */
+export const STANDARD_PREFIXES: Record<string, string> = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  owl: "http://www.w3.org/2002/07/owl#",
+  xsd: "http://www.w3.org/2001/XMLSchema#",
+  skos: "http://www.w3.org/2004/02/skos/core#",
+  dc: "http://purl.org/dc/elements/1.1/",
+  dcterms: "http://purl.org/dc/terms/",
+};
+
+/** Thrown when user input cannot be safely placed in a query. */
+export class QueryBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryBuildError";
+  }
+}
+
+// Characters excluded from IRIREF by the SPARQL 1.1 grammar, plus whitespace
+// and control characters.
+const INVALID_IRI_CHARS = /[\u0000- <>"{}|^`\\]/;
+const IRI_SCHEME = /^[A-Za-z][A-Za-z0-9+.-]*:/;
+
+/** Check that a string is an absolute IRI that can be written as <...>. */
+export function isValidIri(value: string): boolean {
+  return IRI_SCHEME.test(value) && !INVALID_IRI_CHARS.test(value);
+}
+
+/** Render a validated IRI reference, e.g. <https://example.org/x>. */
+export function iri(value: string): string {
+  const trimmed = value.trim();
+  if (!isValidIri(trimmed)) {
+    throw new QueryBuildError(
+      `Invalid URI: "${value}". Expected an absolute URI such as https://lp-sachsen.org/resource/522.`
+    );
+  }
+  return `<${trimmed}>`;
+}
+
+/** Render a term from the lp: ontology namespace, e.g. lp("LP_0000008"). */
+export function lp(localName: string): string {
+  if (!/^LP_\d{7}$/.test(localName)) {
+    throw new QueryBuildError(`Invalid ontology term: "${localName}".`);
+  }
+  return `lp:${localName}`;
+}
+
+const ESCAPES: Record<string, string> = {
+  "\\": "\\\\",
+  '"': '\\"',
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\b": "\\b",
+  "\f": "\\f",
+};
+
+/** Escape a string for use inside a double-quoted SPARQL literal. */
+export function escapeString(value: string): string {
+  return value.replace(/[\\"\n\r\t\b\f]/g, (c) => ESCAPES[c]);
+}
+
+/** Render a string literal, optionally with a language tag. */
+export function literal(value: string, lang?: string): string {
+  const quoted = `"${escapeString(value)}"`;
+  if (lang === undefined) return quoted;
+  if (!/^[A-Za-z]{1,8}(-[A-Za-z0-9]{1,8})*$/.test(lang)) {
+    throw new QueryBuildError(`Invalid language tag: "${lang}".`);
+  }
+  return `${quoted}@${lang}`;
+}
+
+/** Render a non-negative integer literal. */
+export function integer(value: number): string {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new QueryBuildError(`Invalid integer: ${value}.`);
+  }
+  return String(value);
+}
+
+/** Render a variable, e.g. variable("label") -> ?label. */
+export function variable(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new QueryBuildError(`Invalid variable name: "${name}".`);
+  }
+  return `?${name}`;
+}
+
+/** One FROM clause per graph. */
+export function fromClauses(graphs: string[]): string {
+  return graphs.map((g) => `FROM ${iri(g)}`).join("\n");
+}
+
+/** A triple pattern from already-rendered terms. */
+export function triple(subject: string, predicate: string, object: string): string {
+  return `${subject} ${predicate} ${object} .`;
+}
+
+/** A VALUES block binding a variable to a list of IRIs. */
+export function valuesIris(name: string, uris: string[]): string {
+  return `VALUES ${variable(name)} { ${uris.map(iri).join(" ")} }`;
+}
+
+export interface SelectQuery {
+  distinct?: boolean;
+  /** Projected variables or expressions, e.g. "?s" or "(SAMPLE(?l) AS ?label)" */
+  select: string[];
+  from: string[];
+  /** Graph patterns, one per line */
+  where: string[];
+  groupBy?: string[];
+  orderBy?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+/** Assemble a SELECT query with the lp: prefix declared. */
+export function selectQuery(q: SelectQuery): string {
+  const lines = [
+    LP_PREFIX,
+    `SELECT ${q.distinct ? "DISTINCT " : ""}${q.select.join(" ")}`,
+    fromClauses(q.from),
+    "WHERE {",
+    ...q.where.map((p) => `  ${p}`),
+    "}",
+  ];
+  if (q.groupBy?.length) lines.push(`GROUP BY ${q.groupBy.join(" ")}`);
+  if (q.orderBy?.length) lines.push(`ORDER BY ${q.orderBy.join(" ")}`);
+  if (q.limit !== undefined) lines.push(`LIMIT ${integer(q.limit)}`);
+  if (q.offset !== undefined && q.offset > 0) lines.push(`OFFSET ${integer(q.offset)}`);
+  return lines.filter(Boolean).join("\n");
+}
@@ -0,0 +1,133 @@
+import sparqljs from "sparqljs";
+import type { Query } from "sparqljs";
+import { LP_NAMESPACE, STANDARD_PREFIXES } from "./query-builder.js";
+
+/** Thrown when a user-supplied query is not allowed to run. */
+export class QueryRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryRejectedError";
+  }
+}
+
+export interface GuardOptions {
+  /** Graph URIs that FROM, FROM NAMED and GRAPH clauses may refer to */
+  allowedGraphs: string[];
+  /** Upper bound for LIMIT on SELECT, CONSTRUCT and DESCRIBE queries */
+  maxLimit: number;
+}
+
+export interface GuardedQuery {
+  queryType: Query["queryType"];
+  /** The query text to send, with the lp: prefix and LIMIT cap applied */
+  query: string;
+}
+
+// Prefixes the endpoint knows without declaration. They are only used for
+// parsing; the query text is sent as written unless its LIMIT is lowered.
+const PARSER_PREFIXES = {
+  ...STANDARD_PREFIXES,
+  lp: LP_NAMESPACE,
+  bif: "bif:",
+};
+
+/** Recursively collect every object with the given pattern type. */
+function collectPatterns(node: unknown, type: string, out: Record<string, unknown>[] = []) {
+  if (Array.isArray(node)) {
+    for (const item of node) collectPatterns(item, type, out);
+  } else if (node && typeof node === "object") {
+    const record = node as Record<string, unknown>;
+    if (record.type === type) out.push(record);
+    for (const value of Object.values(record)) collectPatterns(value, type, out);
+  }
+  return out;
+}
+
+function applyLimitCap(query: string, parsed: Query, maxLimit: number): string {
+  if (parsed.queryType === "ASK") return query;
+
+  const limit = (parsed as { limit?: number }).limit;
+  if (limit === undefined) {
+    if (parsed.values) {
+      throw new QueryRejectedError(
+        `Queries with a trailing VALUES block must set an explicit LIMIT (max ${maxLimit}).`
+      );
+    }
+    return `${query}\nLIMIT ${maxLimit}`;
+  }
+  if (limit <= maxLimit) return query;
+
+  // Lower the LIMIT on the parsed query rather than in the text, where a
+  // "LIMIT" in a comment or string literal could be taken for the real one
+  (parsed as { limit?: number }).limit = maxLimit;
+  // The generator declares every prefix the query uses. Virtuoso resolves
+  // bif: itself and may not accept it declared, so drop that header line.
+  return new sparqljs.Generator().stringify(parsed).replace(`PREFIX bif: <${PARSER_PREFIXES.bif}>\n`, "");
+}
+
+/**
+ * Check a user-supplied query before it is sent to the endpoint: only
+ * read-only query forms, no SERVICE federation, no graphs outside the
+ * configured ones, and a capped LIMIT.
+ */
+export function guardQuery(query: string, options: GuardOptions): GuardedQuery {
+  let parsed;
+  try {
+    parsed = new sparqljs.Parser({ prefixes: PARSER_PREFIXES }).parse(query);
+  } catch (e) {
+    throw new QueryRejectedError(
+      `Could not parse query: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+
+  if (parsed.type === "update") {
+    throw new QueryRejectedError(
+      "Only read-only queries (SELECT, ASK, CONSTRUCT, DESCRIBE) are allowed. Updates such as INSERT, DELETE, LOAD or CLEAR are rejected."
+    );
+  }
+
+  if (collectPatterns(parsed.where, "service").length > 0) {
+    throw new QueryRejectedError("SERVICE clauses are not allowed.");
+  }
+
+  const allowed = new Set(options.allowedGraphs);
+  const defaultGraphs = parsed.from?.default ?? [];
+  const namedGraphs = parsed.from?.named ?? [];
+  if (defaultGraphs.length === 0 && namedGraphs.length === 0) {
+    throw new QueryRejectedError(
+      "The query must include FROM clauses for the graphs it reads. See the tool description for available graphs."
+    );
+  }
+
+  const referenced = [
+    ...defaultGraphs.map((g) => g.value),
+    ...namedGraphs.map((g) => g.value),
+  ];
+  for (const pattern of collectPatterns(parsed.where, "graph")) {
+    const name = pattern.name as { termType: string; value: string };
+    if (name.termType === "NamedNode") {
+      referenced.push(name.value);
+    } else if (namedGraphs.length === 0) {
+      throw new QueryRejectedError(
+        "GRAPH patterns with a variable require FROM NAMED clauses."
+      );
+    }
+  }
+  const unknown = referenced.filter((g) => !allowed.has(g));
+  if (unknown.length > 0) {
+    throw new QueryRejectedError(
+      `Graph(s) not available: ${[...new Set(unknown)].map((g) => `<${g}>`).join(", ")}. ` +
+        "See the tool description for available graphs."
+    );
+  }
+
+  // lp: is advertised as available, so declare it if the query does not
+  const withPrefix = /PREFIX\s+lp\s*:/i.test(query)
+    ? query
+    : `PREFIX lp: <${LP_NAMESPACE}>\n${query}`;
+
+  return {
+    queryType: parsed.queryType,
+    query: applyLimitCap(withPrefix, parsed, options.maxLimit),
+  };
+}
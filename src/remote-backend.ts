@@ -0,0 +1,182 @@
+import type { QueryOptions, SparqlBackend, SparqlResults } from "./sparql.js";
+import {
+  SparqlCancelledError,
+  SparqlError,
+  SparqlSyntaxError,
+  SparqlTimeoutError,
+  SparqlUnavailableError,
+} from "./sparql-errors.js";
+
+export interface RemoteBackendOptions {
+  /** Primary endpoint first, then fallbacks in order of preference */
+  endpoints: string[];
+  /** Time limit per attempt unless the query sets its own */
+  timeoutMs: number;
+  /** Extra rounds over the endpoints after transient failures */
+  retries: number;
+  /** Delay before the first retry; doubles with every further retry */
+  retryBaseMs: number;
+  /** Consecutive failures after which an endpoint is skipped */
+  breakerThreshold: number;
+  /** How long a failing endpoint is skipped before it gets another try */
+  breakerCooldownMs: number;
+}
+
+// Longest endpoint error message passed on to the caller
+const MAX_ERROR_DETAIL = 1000;
+
+/** Network errors, 5xx, 408 and 429: worth retrying, possibly elsewhere. */
+class TransientError extends Error {}
+
+interface Breaker {
+  failures: number;
+  openUntil: number;
+}
+
+/**
+ * Virtuoso echoes the whole query after its error message; keep only the
+ * message.
+ */
+function errorDetail(body: string): string {
+  const detail = body.split(/\n\s*SPARQL query:/)[0].trim();
+  return detail.length > MAX_ERROR_DETAIL ? `${detail.slice(0, MAX_ERROR_DETAIL)}…` : detail;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new SparqlCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new SparqlCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Backend that POSTs queries to remote SPARQL endpoints (Virtuoso). Transient
+ * failures are retried with exponential backoff, moving on to the fallback
+ * endpoints; an endpoint that keeps failing is skipped for a cooldown period
+ * (circuit breaker). Timeouts and syntax errors are not retried.
+ */
+export function createRemoteBackend(options: RemoteBackendOptions): SparqlBackend {
+  const breakers = new Map<string, Breaker>(
+    options.endpoints.map((e) => [e, { failures: 0, openUntil: 0 }])
+  );
+
+  function recordSuccess(endpoint: string) {
+    const breaker = breakers.get(endpoint)!;
+    if (breaker.openUntil > 0) console.error(`SPARQL endpoint recovered: ${endpoint}`);
+    breaker.failures = 0;
+    breaker.openUntil = 0;
+  }
+
+  function recordFailure(endpoint: string) {
+    const breaker = breakers.get(endpoint)!;
+    breaker.failures++;
+    if (breaker.failures >= options.breakerThreshold) {
+      if (breaker.openUntil <= Date.now()) {
+        console.error(
+          `SPARQL endpoint failing, skipped for ${options.breakerCooldownMs} ms: ${endpoint}`
+        );
+      }
+      breaker.openUntil = Date.now() + options.breakerCooldownMs;
+    }
+  }
+
+  /** One request to one endpoint; returns the response body. */
+  async function attempt(
+    endpoint: string,
+    query: string,
+    accept: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/sparql-query", Accept: accept },
+        body: query,
+        signal: combined,
+      });
+      // Read the body under the same signal, so a stalled body also times out
+      const body = await response.text();
+      if (response.ok) return body;
+
+      const status = response.status;
+      if (status >= 500 || status === 408 || status === 429) {
+        // Virtuoso reports some compiler errors as 500
+        if (/\b37000\b|syntax error/i.test(body)) throw new SparqlSyntaxError(errorDetail(body));
+        throw new TransientError(`HTTP ${status}: ${errorDetail(body)}`);
+      }
+      if (status === 400) throw new SparqlSyntaxError(errorDetail(body));
+      throw new SparqlError(`SPARQL query failed (${status}): ${errorDetail(body)}`);
+    } catch (e) {
+      if (signal?.aborted) throw new SparqlCancelledError();
+      if (timeout.aborted) throw new SparqlTimeoutError(timeoutMs);
+      if (e instanceof SparqlError || e instanceof TransientError) throw e;
+      const cause = e instanceof Error && e.cause instanceof Error ? `: ${e.cause.message}` : "";
+      throw new TransientError(`${e instanceof Error ? e.message : String(e)}${cause}`);
+    }
+  }
+
+  async function execute(query: string, accept: string, queryOptions: QueryOptions = {}): Promise<string> {
+    const timeoutMs = queryOptions.timeoutMs ?? options.timeoutMs;
+    const { signal } = queryOptions;
+    const failures: string[] = [];
+
+    for (let round = 0; round <= options.retries; round++) {
+      if (round > 0) {
+        // Exponential backoff with jitter, so retrying clients do not align
+        const delay = options.retryBaseMs * 2 ** (round - 1);
+        await sleep(delay / 2 + Math.random() * (delay / 2), signal);
+      }
+
+      const now = Date.now();
+      const candidates = options.endpoints.filter((e) => breakers.get(e)!.openUntil <= now);
+      if (candidates.length === 0) {
+        const reopen = Math.min(...[...breakers.values()].map((b) => b.openUntil));
+        throw new SparqlUnavailableError(
+          `all endpoints failed repeatedly and are paused${failures.length ? ` (${failures.at(-1)})` : ""}.`,
+          Math.ceil((reopen - now) / 1000)
+        );
+      }
+
+      for (const endpoint of candidates) {
+        try {
+          const body = await attempt(endpoint, query, accept, timeoutMs, signal);
+          recordSuccess(endpoint);
+          return body;
+        } catch (e) {
+          if (e instanceof SparqlCancelledError) throw e;
+          if (e instanceof TransientError || e instanceof SparqlTimeoutError) recordFailure(endpoint);
+          else recordSuccess(endpoint);
+          if (!(e instanceof TransientError)) throw e;
+          failures.push(`${endpoint}: ${e.message}`);
+        }
+      }
+    }
+    throw new SparqlUnavailableError(failures.slice(-options.endpoints.length).join("; "));
+  }
+
+  const [primary, ...fallbacks] = options.endpoints;
+  return {
+    description:
+      `SPARQL endpoint: ${primary}` + (fallbacks.length ? ` (fallbacks: ${fallbacks.join(", ")})` : ""),
+    supportsBifContains: true,
+    async select(query, queryOptions) {
+      return JSON.parse(
+        await execute(query, "application/sparql-results+json", queryOptions)
+      ) as SparqlResults;
+    },
+    async construct(query, queryOptions) {
+      return execute(query, "text/turtle", queryOptions);
+    },
+  };
+}
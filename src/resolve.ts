@@ -0,0 +1,213 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { PROJECT_ROOT, config } from "./config.js";
+
+// --- Fuzzy, synonym-aware matching of Schulfach and Schulart names ---
+
+export type VocabularyKind = "schulfach" | "schulart";
+
+export interface VocabularyEntry {
+  uri: string;
+  label: string;
+}
+
+export interface RankedEntry extends VocabularyEntry {
+  score: number;
+}
+
+/** Alias (normalised) -> canonical labels it may stand for. */
+export type SynonymTable = Record<string, string[]>;
+
+// Scores at or above this count as a match
+const MIN_SCORE = 0.7;
+// A runner-up this close to the best match makes the input ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+const DEFAULT_SYNONYMS: Record<VocabularyKind, Record<string, string | string[]>> = {
+  schulfach: {
+    bio: "Biologie",
+    mathe: "Mathematik",
+    ma: "Mathematik",
+    deu: "Deutsch",
+    engl: "Englisch",
+    franz: "Französisch",
+    info: "Informatik",
+    geo: ["Geographie", "Geografie", "Erdkunde"],
+    erdkunde: ["Geographie", "Geografie"],
+    geschi: "Geschichte",
+    phy: "Physik",
+    che: "Chemie",
+    hsu: "Heimat- und Sachunterricht",
+    sachkunde: "Sachunterricht",
+    gk: "Gemeinschaftskunde",
+  },
+  schulart: {
+    gym: "Gymnasium",
+    gs: "Grundschule",
+    ms: "Mittelschule",
+    os: "Oberschule",
+    rs: "Realschule",
+    igs: "Integrierte Gesamtschule",
+    fos: "Fachoberschule",
+    bos: "Berufsoberschule",
+  },
+};
+
+/**
+ * Normalise a name for matching: lower case, umlauts and ß spelled out,
+ * punctuation collapsed to single spaces.
+ */
+export function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Normalised name without parenthesised qualifiers, e.g. "Oberschule (Sachsen)". */
+function coreName(value: string): string {
+  return normalizeName(value.replace(/\([^)]*\)/g, " "));
+}
+
+/** Levenshtein edit distance. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function toSynonymTable(raw: Record<string, string | string[]>): SynonymTable {
+  const table: SynonymTable = {};
+  for (const [alias, targets] of Object.entries(raw)) {
+    table[normalizeName(alias)] = (Array.isArray(targets) ? targets : [targets]).map(normalizeName);
+  }
+  return table;
+}
+
+/**
+ * Load the synonym tables: built-in defaults, extended or overridden by the
+ * JSON file named in SYNONYMS_FILE ({ "schulfach": { "bio": "Biologie" }, ... }).
+ */
+function loadSynonyms(): Record<VocabularyKind, SynonymTable> {
+  const merged = {
+    schulfach: { ...DEFAULT_SYNONYMS.schulfach },
+    schulart: { ...DEFAULT_SYNONYMS.schulart },
+  };
+  const file = config().synonymsFile;
+  if (file) {
+    const path = resolve(PROJECT_ROOT, file);
+    let parsed: Partial<Record<VocabularyKind, Record<string, string | string[]>>>;
+    try {
+      parsed = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (e) {
+      throw new Error(
+        `Could not read SYNONYMS_FILE "${path}": ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+    Object.assign(merged.schulfach, parsed.schulfach);
+    Object.assign(merged.schulart, parsed.schulart);
+  }
+  return {
+    schulfach: toSynonymTable(merged.schulfach),
+    schulart: toSynonymTable(merged.schulart),
+  };
+}
+
+export const SYNONYMS = loadSynonyms();
+
+/** Score how well an input names a vocabulary label, from 0 to 1. */
+function scoreMatch(input: string, label: string, synonyms: SynonymTable): number {
+  const n = normalizeName(input);
+  const c = normalizeName(label);
+  if (!n || !c) return 0;
+  if (n === c) return 1;
+
+  const scores = [0];
+  if (synonyms[n]?.includes(c)) scores.push(0.97);
+
+  const nCore = coreName(input);
+  const cCore = coreName(label);
+  if (nCore && nCore === cCore) scores.push(0.95);
+
+  // "Mathe" -> "Mathematik"
+  if (n.length >= 3 && c.startsWith(n)) scores.push(0.85 + 0.1 * (n.length / c.length));
+  // "Religion" -> "Evangelische Religionslehre"
+  else if (n.length >= 4 && c.split(" ").some((w) => w.startsWith(n))) {
+    scores.push(0.75 + 0.1 * (n.length / c.length));
+  }
+
+  // Typos, ignoring qualifiers; identical cores count as a core match, so only
+  // the exact name scores 1
+  const a = nCore || n;
+  const b = cCore || c;
+  scores.push(Math.min(0.95, 1 - editDistance(a, b) / Math.max(a.length, b.length)));
+
+  return Math.max(...scores);
+}
+
+/** Rank vocabulary entries by how well they match the input, best first. */
+export function rankEntries(
+  input: string,
+  entries: VocabularyEntry[],
+  synonyms: SynonymTable
+): RankedEntry[] {
+  return entries
+    .map((e) => ({ ...e, score: Math.round(scoreMatch(input, e.label, synonyms) * 1000) / 1000 }))
+    .sort((x, y) => y.score - x.score || x.label.localeCompare(y.label));
+}
+
+const NOUNS: Record<VocabularyKind, { noun: string; listTool: string; what: string }> = {
+  schulfach: { noun: "Schulfach", listTool: "list_schulfaecher", what: "subjects" },
+  schulart: { noun: "Schulart", listTool: "list_schularten", what: "school types" },
+};
+
+function describeCandidates(ranked: RankedEntry[]): string {
+  return ranked.map((e) => `"${e.label}"`).join(", ");
+}
+
+/**
+ * Pick the vocabulary entry an input refers to. Throws if nothing matches
+ * well enough, or if several different entries match about equally well.
+ */
+export function pickEntry(
+  kind: VocabularyKind,
+  input: string,
+  entries: VocabularyEntry[]
+): VocabularyEntry {
+  const { noun, listTool, what } = NOUNS[kind];
+  const ranked = rankEntries(input, entries, SYNONYMS[kind]);
+  const best = ranked[0];
+
+  if (!best || best.score < MIN_SCORE) {
+    const hint = ranked.length > 0 ? ` Closest: ${describeCandidates(ranked.slice(0, 5))}.` : "";
+    throw new Error(
+      `${noun} "${input}" not found for this Bundesland.${hint} Use ${listTool} to see available ${what}.`
+    );
+  }
+
+  if (best.score < 1) {
+    const rivals = ranked.filter(
+      (e) => e.uri !== best.uri && e.score >= MIN_SCORE && best.score - e.score < AMBIGUITY_MARGIN
+    );
+    if (rivals.length > 0) {
+      throw new Error(
+        `${noun} "${input}" is ambiguous. Did you mean one of: ${describeCandidates([best, ...rivals].slice(0, 5))}?`
+      );
+    }
+  }
+  return best;
+}
@@ -0,0 +1,296 @@
+import { z } from "zod";
+import { backend, querySparql } from "./sparql.js";
+import { literal, selectQuery, triple } from "./query-builder.js";
+
+// --- Full-text search: query syntax, candidate queries, ranking and snippets ---
+
+export interface SearchTerm {
+  /** Lower-case words that must appear next to each other, in order */
+  words: string[];
+  /** Whether the last word may be a prefix ("fisch" matches "Fische"); false for quoted phrases */
+  prefix: boolean;
+}
+
+export interface SearchQuery {
+  /** Every group must match; a group matches if any of its terms does */
+  groups: SearchTerm[][];
+  /** Terms no hit may contain */
+  excluded: SearchTerm[];
+}
+
+export type SearchStrategy = "bif:contains" | "regex";
+
+export interface SearchHit {
+  uri: string;
+  label: string;
+  score: number;
+  snippet: string;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+// Virtuoso rejects wildcards with fewer leading characters (error FT370)
+const VIRTUOSO_MIN_PREFIX = 4;
+// BM25 parameters: term frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Parse a search query. Words match by prefix, "quoted phrases" match
+ * exactly, OR joins alternatives, and NOT or a leading "-" excludes a term.
+ * Everything else must match (AND).
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups: SearchTerm[][] = [];
+  const excluded: SearchTerm[] = [];
+  let negate = false;
+  let alternative = false;
+
+  for (const match of input.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+    const [, minus, phrase, word] = match;
+    if (word === "OR") {
+      alternative = groups.length > 0;
+      continue;
+    }
+    if (word === "NOT") {
+      negate = true;
+      continue;
+    }
+    if (word === "AND") continue;
+
+    const exclude = negate || minus === "-" || (word?.startsWith("-") ?? false);
+    const text = word === undefined ? phrase : word.replace(/^-/, "");
+    const term = { words: text.toLowerCase().match(WORD) ?? [], prefix: word !== undefined };
+    if (term.words.length > 0) {
+      if (exclude) excluded.push(term);
+      else if (alternative) groups[groups.length - 1].push(term);
+      else groups.push([term]);
+    }
+    negate = false;
+    alternative = false;
+  }
+
+  if (groups.length === 0) {
+    throw new Error(`Nothing to search for in "${input}". Give at least one word or "phrase" that must match.`);
+  }
+  return { groups, excluded };
+}
+
+/** Strategy for the current backend: Virtuoso's text index, or portable REGEX filters. */
+export function searchStrategy(): SearchStrategy {
+  return backend.supportsBifContains ? "bif:contains" : "regex";
+}
+
+function bifTerm(term: SearchTerm): string {
+  const [only] = term.words;
+  // Wildcards only on single words, since Virtuoso may not expand them inside phrases
+  const wildcard = term.prefix && term.words.length === 1 && only.length >= VIRTUOSO_MIN_PREFIX;
+  return `"${term.words.join(" ")}${wildcard ? "*" : ""}"`;
+}
+
+/** Virtuoso free-text expression, e.g. ("fisch*" OR "vogel*") AND NOT "mensch". */
+function bifExpression(query: SearchQuery): string {
+  return [
+    ...query.groups.map((g) => (g.length === 1 ? bifTerm(g[0]) : `(${g.map(bifTerm).join(" OR ")})`)),
+    ...query.excluded.map((t) => `NOT ${bifTerm(t)}`),
+  ].join(" AND ");
+}
+
+/** XPath regex matching a term at a word start, e.g. (^|\W)fische\W+und\W+amphibien(\W|$). */
+function termRegex(term: SearchTerm): string {
+  return `(^|\\W)${term.words.join("\\W+")}${term.prefix ? "" : "(\\W|$)"}`;
+}
+
+function regexCondition(name: string, term: SearchTerm): string {
+  return `REGEX(STR(?${name}), ${literal(termRegex(term))}, "i")`;
+}
+
+/** FILTER expressing the whole query with REGEX, for backends without bif:contains. */
+function regexFilter(name: string, query: SearchQuery): string {
+  const conditions = [
+    ...query.groups.map((g) => `(${g.map((t) => regexCondition(name, t)).join(" || ")})`),
+    ...query.excluded.map((t) => `!${regexCondition(name, t)}`),
+  ];
+  return `FILTER(${conditions.join(" && ")})`;
+}
+
+/**
+ * Query for labelled nodes matching the search, best first on Virtuoso (by
+ * its text score). `patterns` may restrict ?s further, e.g. to a Schulfach.
+ */
+export function candidateQuery(
+  query: SearchQuery,
+  strategy: SearchStrategy,
+  graphs: string[],
+  patterns: string[],
+  limit: number
+): string {
+  const bif = strategy === "bif:contains";
+  return selectQuery({
+    distinct: true,
+    select: bif ? ["?s", "?label", "?score"] : ["?s", "?label"],
+    from: graphs,
+    where: [
+      triple("?s", "rdfs:label", "?label"),
+      bif ? `?label bif:contains ${literal(bifExpression(query))} OPTION (score ?score) .` : regexFilter("label", query),
+      ...patterns,
+    ],
+    orderBy: bif ? ["DESC(?score)", "?s"] : ["?s"],
+    limit,
+  });
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(WORD)].map((m) => ({
+    word: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+/** Character ranges where a term occurs, whole words only. */
+function occurrences(tokens: Token[], term: SearchTerm): [number, number][] {
+  const ranges: [number, number][] = [];
+  const last = term.words.length - 1;
+  for (let i = 0; i + last < tokens.length; i++) {
+    const matches = term.words.every((w, j) =>
+      j === last && term.prefix ? tokens[i + j].word.startsWith(w) : tokens[i + j].word === w
+    );
+    if (matches) ranges.push([tokens[i].start, tokens[i + last].end]);
+  }
+  return ranges;
+}
+
+/** Corpus statistics for BM25: labelled nodes and, per term, how many labels contain it. */
+async function corpusStats(
+  query: SearchQuery,
+  graphs: string[]
+): Promise<{ documents: number; frequency: Map<SearchTerm, number> }> {
+  const count = async (filter?: string) => {
+    const results = await querySparql(
+      selectQuery({
+        select: ["(COUNT(DISTINCT ?s) AS ?n)"],
+        from: graphs,
+        where: [triple("?s", "rdfs:label", "?label"), ...(filter ? [filter] : [])],
+      })
+    );
+    return Number(results.results.bindings[0]?.n?.value ?? 0);
+  };
+  const terms = query.groups.flat();
+  const frequency = new Map<SearchTerm, number>();
+  for (const term of terms) frequency.set(term, await count(`FILTER(${regexCondition("label", term)})`));
+  return { documents: await count(), frequency };
+}
+
+/**
+ * Label with matched words in **bold**, cut to about SNIPPET_LENGTH
+ * characters around the first match.
+ */
+export function snippet(label: string, query: SearchQuery): string {
+  const tokens = tokenize(label);
+  const ranges = query.groups
+    .flat()
+    .flatMap((t) => occurrences(tokens, t))
+    .sort((a, b) => a[0] - b[0]);
+
+  let from = 0;
+  let to = label.length;
+  if (label.length > SNIPPET_LENGTH) {
+    from = Math.max(0, Math.min((ranges[0]?.[0] ?? 0) - 40, label.length - SNIPPET_LENGTH));
+    to = from + SNIPPET_LENGTH;
+  }
+
+  let text = "";
+  let position = from;
+  for (const [start, end] of ranges) {
+    if (start < position || end > to) continue;
+    text += `${label.slice(position, start)}**${label.slice(start, end)}**`;
+    position = end;
+  }
+  text += label.slice(position, to);
+  return `${from > 0 ? "…" : ""}${text.trim()}${to < label.length ? "…" : ""}`;
+}
+
+/**
+ * BM25 score of a label: the number of labelled nodes (`documents`), how many
+ * labels contain each term (`frequency`), and the average label length in words.
+ */
+export function bm25(
+  label: string,
+  corpus: { documents: number; frequency: Map<SearchTerm, number>; averageLength: number }
+): number {
+  const tokens = tokenize(label);
+  const norm = 1 - BM25_B + (BM25_B * tokens.length) / corpus.averageLength;
+  let total = 0;
+  for (const [term, df] of corpus.frequency) {
+    const tf = occurrences(tokens, term).length;
+    if (tf === 0) continue;
+    const idf = Math.log(1 + (corpus.documents - df + 0.5) / (df + 0.5));
+    total += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+  }
+  return total;
+}
+
+/**
+ * Rank candidates, one hit per node. Virtuoso hits keep their text score;
+ * otherwise labels are scored with BM25, using term frequencies from the
+ * whole graph set.
+ */
+export async function rankHits(
+  rows: { uri: string; label: string; score?: number }[],
+  query: SearchQuery,
+  graphs: string[]
+): Promise<SearchHit[]> {
+  const best = new Map<string, { uri: string; label: string; score?: number }>();
+  for (const row of rows) {
+    const known = best.get(row.uri);
+    if (!known || (row.score ?? 0) > (known.score ?? 0)) best.set(row.uri, row);
+  }
+  const candidates = [...best.values()];
+
+  let score: (c: { label: string; score?: number }) => number = (c) => c.score ?? 0;
+  if (candidates.some((c) => c.score === undefined)) {
+    const corpus = await corpusStats(query, graphs);
+    const lengths = candidates.map((c) => tokenize(c.label).length);
+    const averageLength = lengths.reduce((a, b) => a + b, 0) / Math.max(lengths.length, 1) || 1;
+    score = (c) => bm25(c.label, { ...corpus, averageLength });
+  }
+
+  return candidates
+    .map((c) => ({
+      uri: c.uri,
+      label: c.label,
+      score: Math.round(score(c) * 1000) / 1000,
+      snippet: snippet(c.label, query),
+    }))
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label) || a.uri.localeCompare(b.uri));
+}
+
+const labelledUri = z.object({ uri: z.string(), label: z.string().optional() });
+
+export const searchOutputShape = {
+  strategy: z
+    .enum(["bif:contains", "regex"])
+    .describe("bif:contains with Virtuoso's text score, or REGEX filters ranked with BM25"),
+  hits: z.array(
+    z.object({
+      uri: z.string(),
+      label: z.string(),
+      score: z.number().describe("Relevance; higher is better"),
+      snippet: z.string().describe("Label with the matched words in **bold**"),
+      path: z.array(labelledUri).describe("Ancestors via 'hat Teil', from the Lehrplan down to the direct parent"),
+      lehrplan: labelledUri.optional().describe("The Lehrplan containing the hit, or the hit itself"),
+      bundesland: z.array(z.string()),
+      schulfach: z.array(z.string()),
+      schulart: z.array(z.string()),
+      jahrgangsstufen: z.array(z.string()),
+    })
+  ),
+  truncated: z.boolean().describe("True if more matches exist than were ranked; narrow the query to see them"),
+};
@@ -0,0 +1,127 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+// --- One transport and server instance per mcp-session-id ---
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  /** Client that started the session; other clients cannot use it */
+  owner?: string;
+}
+
+export interface SessionManagerOptions {
+  /** Creates the server instance for a new session. */
+  createServer: () => McpServer;
+  maxSessions: number;
+  idleTimeoutMs: number;
+}
+
+export interface SessionManager {
+  /** Handle a request on behalf of `owner`, the authenticated client if any. */
+  handleRequest(req: IncomingMessage, res: ServerResponse, owner?: string): Promise<void>;
+  /** Number of open sessions. */
+  size(): number;
+  closeAll(): Promise<void>;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Route Streamable HTTP requests to per-session transports. A POST without
+ * an mcp-session-id header starts a new session (the transport rejects
+ * anything but initialize); DELETE ends a session. Sessions idle for longer
+ * than idleTimeoutMs are closed, and at most maxSessions may be open or
+ * starting.
+ */
+export function createSessionManager(options: SessionManagerOptions): SessionManager {
+  const sessions = new Map<string, Session>();
+  // Initialize requests accepted but not yet turned into a session. They count
+  // towards maxSessions, so concurrent initializes cannot overshoot the cap.
+  let starting = 0;
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        console.error(`Closing idle session ${id}`);
+        session.transport.close().catch(() => {});
+      }
+    }
+  }, Math.min(options.idleTimeoutMs / 2, 60_000));
+  sweep.unref();
+
+  async function startSession(req: IncomingMessage, res: ServerResponse, owner?: string) {
+    if (sessions.size + starting >= options.maxSessions) {
+      res.setHeader("Retry-After", "60");
+      sendJsonRpcError(res, 503, -32000, `Too many sessions (limit ${options.maxSessions}). Try again later.`);
+      return;
+    }
+
+    starting++;
+    let pending = true;
+    const settle = () => {
+      if (pending) starting--;
+      pending = false;
+    };
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        settle();
+        sessions.set(id, { transport, lastSeen: Date.now(), owner });
+      },
+    });
+    // Set before connect(), which chains its own close handler after this one
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    try {
+      const server = options.createServer();
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+
+      // Not an initialize request: the transport answered with an error
+      if (!transport.sessionId) await server.close();
+    } finally {
+      settle();
+    }
+  }
+
+  return {
+    async handleRequest(req, res, owner) {
+      const header = req.headers["mcp-session-id"];
+      const sessionId = Array.isArray(header) ? header[0] : header;
+
+      if (!sessionId) {
+        if (req.method === "POST") return startSession(req, res, owner);
+        sendJsonRpcError(res, 400, -32000, "Bad Request: Mcp-Session-Id header is required");
+        return;
+      }
+
+      const session = sessions.get(sessionId);
+      if (!session || session.owner !== owner) {
+        // Per the spec, 404 tells the client to start a new session
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res);
+    },
+
+    size() {
+      return sessions.size;
+    },
+
+    async closeAll() {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map((s) => s.transport.close()));
+    },
+  };
+}
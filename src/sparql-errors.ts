@@ -0,0 +1,40 @@
+// --- Typed SPARQL failures, so tools can tell users what to do about them ---
+
+export class SparqlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The query ran longer than its time limit. */
+export class SparqlTimeoutError extends SparqlError {
+  constructor(readonly timeoutMs: number) {
+    super(`SPARQL query timed out after ${timeoutMs} ms.`);
+  }
+}
+
+/** The endpoint rejected the query as malformed. */
+export class SparqlSyntaxError extends SparqlError {
+  constructor(readonly detail: string) {
+    super(`SPARQL syntax error: ${detail}`);
+  }
+}
+
+/** No endpoint could answer: network errors, 5xx responses or open circuit breakers. */
+export class SparqlUnavailableError extends SparqlError {
+  constructor(
+    readonly detail: string,
+    /** Seconds until an endpoint will be tried again, if known */
+    readonly retryAfterSeconds?: number
+  ) {
+    super(`SPARQL endpoint unavailable: ${detail}`);
+  }
+}
+
+/** The request was cancelled by the client. */
+export class SparqlCancelledError extends SparqlError {
+  constructor() {
+    super("SPARQL query cancelled.");
+  }
+}
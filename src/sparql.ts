@@ -1,40 +1,12 @@
-import { readFileSync } from "node:fs";
-import { resolve, dirname } from "node:path";
-import { fileURLToPath } from "node:url";
-
-// Load .env file from project root (next to package.json)
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const envPath = resolve(__dirname, "..", ".env");
-try {
-  const envContent = readFileSync(envPath, "utf-8");
-  for (const line of envContent.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("#")) continue;
-    const eqIndex = trimmed.indexOf("=");
-    if (eqIndex === -1) continue;
-    const key = trimmed.slice(0, eqIndex);
-    const value = trimmed.slice(eqIndex + 1);
-    if (!process.env[key]) {
-      process.env[key] = value;
-    }
-  }
-} catch {
-  // .env file is optional if env vars are set another way
-}
-
-function requireEnv(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(
-      `Missing required environment variable: ${name}. See .env.example for reference.`
-    );
-  }
-  return value;
-}
-
-export { requireEnv };
-
-export const SPARQL_ENDPOINT = requireEnv("SPARQL_ENDPOINT");
+import { resolve } from "node:path";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createLocalBackend } from "./local-store.js";
+import { createRemoteBackend } from "./remote-backend.js";
+import { SparqlCancelledError } from "./sparql-errors.js";
+import { createLruCache, type CacheStats } from "./cache.js";
+import { withQuerySlot } from "./limits.js";
+import { observeQuery } from "./metrics.js";
+import { PROJECT_ROOT, config, onConfigChange, sectionChanged, type Config } from "./config.js";
 
 export interface SparqlBinding {
   type: string;
@@ -46,47 +18,186 @@ export interface SparqlBinding {
 export interface SparqlResults {
   head: { vars: string[] };
   results: { bindings: Record<string, SparqlBinding>[] };
+  /** Only set for ASK queries, which carry no bindings */
+  boolean?: boolean;
 }
 
-export async function querySparql(query: string): Promise<SparqlResults> {
-  const response = await fetch(SPARQL_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/sparql-query",
-      Accept: "application/sparql-results+json",
-    },
-    body: query,
-  });
+export interface QueryOptions {
+  /** Abort the query after this many milliseconds */
+  timeoutMs?: number;
+  /** Abort the query when this signal fires, e.g. on MCP request cancellation */
+  signal?: AbortSignal;
+}
+
+/** A triple store that can answer SPARQL SELECT queries. */
+export interface SparqlBackend {
+  /** Short description for startup logs */
+  readonly description: string;
+  /** Whether Virtuoso's bif:contains full-text predicate is available */
+  readonly supportsBifContains: boolean;
+  /** Run a SELECT or ASK query */
+  select(query: string, options?: QueryOptions): Promise<SparqlResults>;
+  /** Run a CONSTRUCT or DESCRIBE query and return the graph as Turtle */
+  construct(query: string, options?: QueryOptions): Promise<string>;
+}
 
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(
-      `SPARQL query failed (${response.status}): ${body.slice(0, 200)}`
+function createBackend(settings: Config["sparql"]): SparqlBackend {
+  if (settings.backend === "local") {
+    return createLocalBackend(
+      settings.localDumps.map((dump) => ({
+        graph: dump.graph,
+        files: dump.files.map((f) => resolve(PROJECT_ROOT, f)),
+      }))
     );
   }
+  return createRemoteBackend({
+    endpoints: [settings.endpoint!, ...settings.fallbackEndpoints],
+    timeoutMs: settings.timeoutMs,
+    retries: settings.retries,
+    retryBaseMs: settings.retryBaseMs,
+    breakerThreshold: settings.breakerThreshold,
+    breakerCooldownMs: settings.breakerCooldownMs,
+  });
+}
+
+// Replaced when the configuration is reloaded; queries already running finish
+// on the old backend
+export let backend = createBackend(config().sparql);
+
+// --- Query cache ---
+
+// Results only change when the configured graph versions change, so entries
+// may live long. CACHE_MAX_ENTRIES=0 disables the cache.
+let queryCache = createLruCache<SparqlResults | string>(config().cache.maxEntries, config().cache.ttlMs);
+
+onConfigChange((next, previous) => {
+  if (sectionChanged(next, previous, "sparql")) {
+    backend = createBackend(next.sparql);
+    console.error(backend.description);
+  }
+  if (sectionChanged(next, previous, "cache")) {
+    queryCache = createLruCache(next.cache.maxEntries, next.cache.ttlMs);
+  }
+});
+
+// Identical queries already running are shared instead of sent twice. The
+// shared query is aborted only once every caller waiting for it has cancelled.
+interface PendingQuery {
+  promise: Promise<SparqlResults | string>;
+  controller: AbortController;
+  waiters: number;
+}
+const inFlight = new Map<string, PendingQuery>();
+
+// Abort signal of the MCP request being handled, so that nested helpers need
+// not pass it to every query
+const cancellation = new AsyncLocalStorage<AbortSignal>();
 
-  return (await response.json()) as SparqlResults;
+/** Run fn so that all queries it makes are aborted when `signal` fires. */
+export function withCancellation<T>(signal: AbortSignal, fn: () => T): T {
+  return cancellation.run(signal, fn);
 }
 
-/** Format a single SPARQL binding value as clean text */
-function formatValue(val: SparqlBinding | undefined): string {
-  if (!val) return "";
-  // Just return the value — no angle brackets, no language tags
-  return val.value;
+const FROM_CLAUSE = /\bFROM\s+(NAMED\s+)?<([^>]*)>/gi;
+
+/**
+ * Cache key for a query: the sorted graph set from its FROM clauses plus the
+ * remaining text with whitespace collapsed, so that formatting and FROM order
+ * do not matter.
+ */
+function cacheKey(kind: string, query: string): string {
+  const graphs = [...query.matchAll(FROM_CLAUSE)]
+    .map((m) => `${m[1] ? "named:" : ""}${m[2]}`)
+    .sort();
+  const text = query.replace(FROM_CLAUSE, " ").replace(/\s+/g, " ").trim();
+  return `${kind}|${graphs.join(" ")}|${text}`;
 }
 
-/** Format SPARQL results as a readable text table */
-export function formatResults(results: SparqlResults): string {
-  const vars = results.head.vars;
-  const bindings = results.results.bindings;
+/** Wait for a shared query, giving up (and releasing it) when `signal` fires. */
+function waitFor(pending: PendingQuery, signal?: AbortSignal): Promise<SparqlResults | string> {
+  if (signal?.aborted) return Promise.reject(new SparqlCancelledError());
+  pending.waiters++;
+  if (!signal) return pending.promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      if (--pending.waiters === 0) pending.controller.abort();
+      reject(new SparqlCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    pending.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
 
-  if (bindings.length === 0) {
-    return "No results.";
+async function cached<T extends SparqlResults | string>(
+  key: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const hit = queryCache.get(key);
+  if (hit !== undefined) return hit as T;
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    const controller = new AbortController();
+    pending = {
+      promise: run(controller.signal).finally(() => inFlight.delete(key)),
+      controller,
+      waiters: 0,
+    };
+    inFlight.set(key, pending);
   }
+  const value = (await waitFor(pending, signal)) as T;
+  queryCache.set(key, value);
+  return value;
+}
+
+/** Hit/miss counters and size of the query cache. */
+export function cacheStats(): CacheStats {
+  return queryCache.stats();
+}
+
+/** Drop all cached query results. */
+export function flushCache(): void {
+  queryCache.clear();
+}
 
-  const rows = bindings.map((b) =>
-    vars.map((v) => formatValue(b[v])).join(" | ")
+export async function querySparql(
+  query: string,
+  options?: QueryOptions
+): Promise<SparqlResults> {
+  return cached(
+    cacheKey("select", query),
+    (signal) =>
+      withQuerySlot(() => observeQuery("select", () => backend.select(query, { ...options, signal }))),
+    options?.signal ?? cancellation.getStore()
   );
+}
+
+/**
+ * Run a SELECT query past the cache, for large results read once (such as
+ * the pages of a whole graph) that would only push useful entries out.
+ */
+export async function querySparqlUncached(
+  query: string,
+  options?: QueryOptions
+): Promise<SparqlResults> {
+  const signal = options?.signal ?? cancellation.getStore();
+  return withQuerySlot(() => observeQuery("select", () => backend.select(query, { ...options, signal })));
+}
 
-  return [`${vars.join(" | ")}`, "---", ...rows].join("\n");
+/** Run a CONSTRUCT or DESCRIBE query and return Turtle. */
+export async function constructSparql(
+  query: string,
+  options?: QueryOptions
+): Promise<string> {
+  return cached(
+    cacheKey("construct", query),
+    (signal) =>
+      withQuerySlot(() =>
+        observeQuery("construct", () => backend.construct(query, { ...options, signal }))
+      ),
+    options?.signal ?? cancellation.getStore()
+  );
 }
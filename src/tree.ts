@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { querySparql } from "./sparql.js";
+import type { SparqlBinding } from "./sparql.js";
+import { iri, lp, selectQuery, triple, valuesIris } from "./query-builder.js";
+import { fetchLabels } from "./labels.js";
+
+// --- Lehrplan tree built by breadth-first 'hat Teil' expansion ---
+
+// Parents per VALUES block when expanding one tree level
+const EXPAND_BATCH_SIZE = 100;
+
+export interface TreeNode {
+  uri: string;
+  label?: string;
+  /** Whether the node has children, even if they were not expanded */
+  hasChildren: boolean;
+  /** Present when the node was expanded */
+  children?: TreeNode[];
+}
+
+export interface Tree {
+  root: TreeNode;
+  nodeCount: number;
+  /** True if the node budget stopped the expansion early */
+  truncated: boolean;
+}
+
+// zod has no direct support for recursive raw shapes, so the schema is lazy
+export const treeNodeSchema: z.ZodType<TreeNode> = z.lazy(() =>
+  z.object({
+    uri: z.string(),
+    label: z.string().optional(),
+    hasChildren: z.boolean(),
+    children: z.array(treeNodeSchema).optional(),
+  })
+);
+
+const compareUris = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+/** Fetch the direct children of many parents, batched into VALUES blocks. */
+export async function fetchChildren(
+  parents: string[],
+  graphs: string[]
+): Promise<Map<string, string[]>> {
+  const children = new Map<string, string[]>();
+  for (let i = 0; i < parents.length; i += EXPAND_BATCH_SIZE) {
+    const batch = parents.slice(i, i + EXPAND_BATCH_SIZE);
+    const results = await querySparql(
+      selectQuery({
+        distinct: true,
+        select: ["?parent", "?child"],
+        from: graphs,
+        where: [valuesIris("parent", batch), triple("?parent", lp("LP_0000008"), "?child")],
+      })
+    );
+    for (const b of results.results.bindings) {
+      const list = children.get(b.parent.value) ?? [];
+      list.push(b.child.value);
+      children.set(b.parent.value, list);
+    }
+  }
+  for (const list of children.values()) list.sort(compareUris);
+  return children;
+}
+
+/**
+ * Leaves below a node via 'hat Teil' (descendants without parts of their
+ * own) with their rdf:types, at most `limit` of them.
+ */
+export async function fetchLeaves(
+  rootUri: string,
+  graphs: string[],
+  limit: number
+): Promise<{ leaves: Map<string, string[]>; truncated: boolean }> {
+  const hatTeil = lp("LP_0000008");
+  const results = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?leaf"],
+      from: graphs,
+      where: [
+        triple(iri(rootUri), `${hatTeil}+`, "?leaf"),
+        `FILTER NOT EXISTS { ${triple("?leaf", hatTeil, "?part")} }`,
+      ],
+      orderBy: ["?leaf"],
+      limit: limit + 1,
+    })
+  );
+  const uris = results.results.bindings.map((b) => b.leaf.value);
+  const leaves = new Map<string, string[]>(uris.slice(0, limit).map((uri) => [uri, []]));
+
+  const keys = [...leaves.keys()];
+  for (let i = 0; i < keys.length; i += EXPAND_BATCH_SIZE) {
+    const types = await querySparql(
+      selectQuery({
+        distinct: true,
+        select: ["?leaf", "?type"],
+        from: graphs,
+        where: [valuesIris("leaf", keys.slice(i, i + EXPAND_BATCH_SIZE)), triple("?leaf", "rdf:type", "?type")],
+      })
+    );
+    for (const b of types.results.bindings) leaves.get(b.leaf.value)!.push(b.type.value);
+  }
+  return { leaves, truncated: uris.length > limit };
+}
+
+/**
+ * Ancestors of each node via 'hat Teil', from the root (usually the
+ * Lehrplan) down to the direct parent.
+ */
+export async function fetchPaths(uris: string[], graphs: string[]): Promise<Map<string, string[]>> {
+  const paths = new Map<string, string[]>();
+  if (uris.length === 0) return paths;
+  const hatTeil = lp("LP_0000008");
+  const edges = await querySparql(
+    selectQuery({
+      distinct: true,
+      select: ["?parent", "?child"],
+      from: graphs,
+      where: [valuesIris("hit", uris), triple("?child", `${hatTeil}*`, "?hit"), triple("?parent", hatTeil, "?child")],
+    })
+  );
+  const parentOf = new Map<string, string>();
+  for (const b of edges.results.bindings) {
+    if (!parentOf.has(b.child.value)) parentOf.set(b.child.value, b.parent.value);
+  }
+  for (const uri of uris) {
+    const ancestors: string[] = [];
+    for (let current = parentOf.get(uri); current && !ancestors.includes(current); current = parentOf.get(current)) {
+      ancestors.unshift(current);
+    }
+    paths.set(uri, ancestors);
+  }
+  return paths;
+}
+
+/**
+ * Build the 'hat Teil' tree below a root node level by level, with one
+ * batched query per level instead of one UNION arm per depth. Expansion stops
+ * at maxDepth or once maxNodes nodes have been collected; nodes that were not
+ * expanded still get an accurate hasChildren flag.
+ */
+export async function buildTree(
+  rootUri: string,
+  options: { maxDepth: number; maxNodes: number; graphs: string[] }
+): Promise<Tree> {
+  const root: TreeNode = { uri: rootUri, label: undefined, hasChildren: false };
+  const seen = new Set([rootUri]);
+  let frontier = [root];
+  let truncated = false;
+
+  for (let depth = 0; depth < options.maxDepth && frontier.length > 0; depth++) {
+    const childMap = await fetchChildren(frontier.map((n) => n.uri), options.graphs);
+    const next: TreeNode[] = [];
+    for (const node of frontier) {
+      const childUris = childMap.get(node.uri) ?? [];
+      node.hasChildren = childUris.length > 0;
+      if (!node.hasChildren) continue;
+      if (seen.size >= options.maxNodes) {
+        truncated = true;
+        continue;
+      }
+      node.children = [];
+      for (const uri of childUris) {
+        // Guard against cycles and shared subtrees
+        if (seen.has(uri)) continue;
+        if (seen.size >= options.maxNodes) {
+          truncated = true;
+          break;
+        }
+        seen.add(uri);
+        const child: TreeNode = { uri, label: undefined, hasChildren: false };
+        node.children.push(child);
+        next.push(child);
+      }
+    }
+    frontier = next;
+  }
+
+  // Nodes on the last level were not expanded; look up whether they have children
+  if (frontier.length > 0) {
+    const childMap = await fetchChildren(frontier.map((n) => n.uri), options.graphs);
+    for (const node of frontier) node.hasChildren = childMap.has(node.uri);
+  }
+
+  const labels = await fetchLabels(seen, options.graphs);
+  const applyLabels = (node: TreeNode) => {
+    node.label = labels.get(node.uri);
+    node.children?.forEach(applyLabels);
+  };
+  applyLabels(root);
+
+  return { root, nodeCount: seen.size, truncated };
+}
+
+/** Whether any node has children that were not expanded. */
+export function hasCollapsedNodes(node: TreeNode): boolean {
+  if (node.hasChildren && !node.children) return true;
+  return (node.children ?? []).some(hasCollapsedNodes);
+}
+
+// --- Rendering ---
+
+/**
+ * Flatten a tree to one row per expanded 'hat Teil' edge, depth first:
+ * parent and child URIs, plus parentLabel and childLabel where known.
+ */
+export function treeToRows(root: TreeNode): {
+  vars: string[];
+  rows: Record<string, SparqlBinding>[];
+} {
+  const rows: Record<string, SparqlBinding>[] = [];
+  const visit = (node: TreeNode) => {
+    for (const child of node.children ?? []) {
+      const row: Record<string, SparqlBinding> = {
+        parent: { type: "uri", value: node.uri },
+        child: { type: "uri", value: child.uri },
+      };
+      if (node.label) row.parentLabel = { type: "literal", value: node.label };
+      if (child.label) row.childLabel = { type: "literal", value: child.label };
+      rows.push(row);
+      visit(child);
+    }
+  };
+  visit(root);
+  return { vars: ["parent", "parentLabel", "child", "childLabel"], rows };
+}
+
+/**
+ * Render a tree as an indented outline. Collapsed nodes that have children
+ * are marked with "[+]".
+ */
+export function renderOutline(root: TreeNode): string {
+  const lines: string[] = [];
+  const visit = (node: TreeNode, indent: string) => {
+    const collapsed = node.hasChildren && !node.children ? " [+]" : "";
+    lines.push(`${indent}- ${node.label ?? "(no label)"} <${node.uri}>${collapsed}`);
+    for (const child of node.children ?? []) visit(child, `${indent}  `);
+  };
+  visit(root, "");
+  return lines.join("\n");
+}
@@ -0,0 +1,170 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type GraphSnapshot, compareSnapshots, diffRows, renderDiffSummary } from "../src/diff.js";
+
+/** A snapshot from its Lehrpläne, [parent, child] edges and labels. */
+function snapshot(lehrplaene: string[], edges: [string, string][], labels: Record<string, string>): GraphSnapshot {
+  const result: GraphSnapshot = {
+    lehrplaene: new Set(lehrplaene),
+    labels: new Map(Object.entries(labels)),
+    parents: new Map(),
+    nodes: new Set(lehrplaene),
+  };
+  for (const [parent, child] of edges) {
+    result.nodes.add(parent);
+    result.nodes.add(child);
+    result.parents.set(child, [...(result.parents.get(child) ?? []), parent]);
+  }
+  return result;
+}
+
+const BEFORE = snapshot(
+  ["lp:1"],
+  [
+    ["lp:1", "n:a"],
+    ["lp:1", "n:b"],
+    ["n:a", "n:c"],
+  ],
+  { "lp:1": "Mathematik", "n:a": "Zahlen", "n:b": "Geometrie", "n:c": "Brüche" }
+);
+
+describe("compareSnapshots", () => {
+  it("finds nothing between identical snapshots", () => {
+    const { summary, changes } = compareSnapshots(BEFORE, BEFORE);
+    assert.deepEqual(changes, []);
+    assert.ok(Object.values(summary).every((c) => c.lehrplaene === 0 && c.nodes === 0));
+  });
+
+  it("reports added and removed Lehrpläne and nodes with their Lehrplan", () => {
+    const after = snapshot(
+      ["lp:1", "lp:2"],
+      [
+        ["lp:1", "n:a"],
+        ["n:a", "n:c"],
+        ["n:a", "n:d"],
+        ["lp:2", "n:e"],
+      ],
+      { "lp:1": "Mathematik", "lp:2": "Physik", "n:a": "Zahlen", "n:c": "Brüche", "n:d": "Dezimalzahlen", "n:e": "Optik" }
+    );
+    const { summary, changes } = compareSnapshots(BEFORE, after);
+    assert.deepEqual(
+      changes.map((c) => [c.change, c.kind, c.uri, c.lehrplan]),
+      [
+        ["added", "lehrplan", "lp:2", "lp:2"],
+        ["added", "node", "n:d", "lp:1"],
+        ["added", "node", "n:e", "lp:2"],
+        ["removed", "node", "n:b", "lp:1"],
+      ]
+    );
+    assert.equal(changes.find((c) => c.uri === "n:b")?.label, "Geometrie");
+    assert.deepEqual(summary.added, { lehrplaene: 1, nodes: 2 });
+    assert.deepEqual(summary.removed, { lehrplaene: 0, nodes: 1 });
+  });
+
+  it("reports relabelled entries with both labels", () => {
+    const after = snapshot(
+      ["lp:1"],
+      [
+        ["lp:1", "n:a"],
+        ["lp:1", "n:b"],
+        ["n:a", "n:c"],
+      ],
+      { "lp:1": "Mathematik", "n:a": "Zahlen und Operationen", "n:b": "Geometrie", "n:c": "Brüche" }
+    );
+    const { changes } = compareSnapshots(BEFORE, after);
+    assert.equal(changes.length, 1);
+    assert.deepEqual(changes[0], {
+      change: "relabelled",
+      kind: "node",
+      uri: "n:a",
+      label: "Zahlen und Operationen",
+      lehrplan: "lp:1",
+      oldLabel: "Zahlen",
+      newLabel: "Zahlen und Operationen",
+    });
+  });
+
+  it("reports nodes moved to other parents, ignoring parent order", () => {
+    const after = snapshot(
+      ["lp:1"],
+      [
+        ["lp:1", "n:a"],
+        ["lp:1", "n:b"],
+        ["n:b", "n:c"],
+      ],
+      { "lp:1": "Mathematik", "n:a": "Zahlen", "n:b": "Geometrie", "n:c": "Brüche" }
+    );
+    const { summary, changes } = compareSnapshots(BEFORE, after);
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].change, "moved");
+    assert.equal(changes[0].uri, "n:c");
+    assert.deepEqual(changes[0].oldParents, [{ uri: "n:a", label: "Zahlen" }]);
+    assert.deepEqual(changes[0].newParents, [{ uri: "n:b", label: "Geometrie" }]);
+    assert.deepEqual(summary.moved, { lehrplaene: 0, nodes: 1 });
+
+    const twoParents = snapshot(["lp:1"], [["n:a", "n:x"], ["n:b", "n:x"]], {});
+    const reordered = snapshot(["lp:1"], [["n:b", "n:x"], ["n:a", "n:x"]], {});
+    assert.deepEqual(compareSnapshots(twoParents, reordered).changes, []);
+  });
+
+  it("sorts by change type, Lehrpläne first, then by Lehrplan and URI", () => {
+    const after = snapshot(
+      ["lp:1", "lp:10", "lp:2"],
+      [
+        ["lp:10", "n:10"],
+        ["lp:2", "n:9"],
+        ["lp:1", "n:a"],
+        ["lp:1", "n:b"],
+        ["n:a", "n:c"],
+      ],
+      { "lp:1": "Mathe", "n:a": "Zahlen", "n:b": "Geometrie", "n:c": "Brüche" }
+    );
+    assert.deepEqual(
+      compareSnapshots(BEFORE, after).changes.map((c) => `${c.change} ${c.uri}`),
+      ["added lp:2", "added lp:10", "added n:9", "added n:10", "relabelled lp:1"]
+    );
+  });
+});
+
+describe("diff rendering", () => {
+  const diff = {
+    bundesland: "SN",
+    oldGraph: "http://sn-old/",
+    newGraph: "http://sn-new/",
+    ...compareSnapshots(
+      BEFORE,
+      snapshot(
+        ["lp:1"],
+        [
+          ["lp:1", "n:a"],
+          ["n:a", "n:b"],
+        ],
+        { "lp:1": "Mathematik", "n:a": "Zahlen", "n:b": "Geometrie" }
+      )
+    ),
+  };
+
+  it("summarises counts per change type", () => {
+    assert.equal(
+      renderDiffSummary(diff),
+      [
+        "Changes in SN from <http://sn-old/> to <http://sn-new/>:",
+        "- added: 0 Lehrpläne, 0 nodes",
+        "- removed: 0 Lehrpläne, 1 node",
+        "- relabelled: 0 Lehrpläne, 0 nodes",
+        "- moved: 0 Lehrpläne, 1 node",
+      ].join("\n")
+    );
+  });
+
+  it("gives one row per change", () => {
+    const rows = diffRows(diff.changes);
+    assert.deepEqual(
+      rows.map((r) => [r.change.value, r.s.value]),
+      [
+        ["removed", "n:c"],
+        ["moved", "n:b"],
+      ]
+    );
+  });
+});
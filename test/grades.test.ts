@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Grade, formatStufen, gradeCoverage, gradeRange, gradesOverlapping } from "../src/grades.js";
+import { LP_NAMESPACE } from "../src/query-builder.js";
+
+const grade = (uri: string, label: string, min: number, max: number): Grade => ({ uri, label, min, max });
+
+const GRADES = [
+  grade("g:5-6", "Jahrgangsstufen 5/6", 5, 6),
+  grade("g:7", "Jahrgangsstufe 7", 7, 7),
+  grade("g:8", "Klasse 8", 8, 8),
+  grade("g:q1", "Qualifikationsphase 1", 12, 12),
+];
+
+describe("gradeRange", () => {
+  it("reads single years and ranges from labels", () => {
+    assert.deepEqual(gradeRange("x", "Jahrgangsstufe 7"), { min: 7, max: 7 });
+    assert.deepEqual(gradeRange("x", "Klassen 5/6"), { min: 5, max: 6 });
+    assert.deepEqual(gradeRange("x", "5-6"), { min: 5, max: 6 });
+    assert.deepEqual(gradeRange("x", "Klassenstufen 7 bis 9"), { min: 7, max: 9 });
+  });
+
+  it("places named phases before reading digits", () => {
+    assert.deepEqual(gradeRange("x", "Qualifikationsphase 1"), { min: 12, max: 12 });
+    assert.deepEqual(gradeRange("x", "Q2"), { min: 13, max: 13 });
+    assert.deepEqual(gradeRange("x", "Qualifikationsphase"), { min: 12, max: 13 });
+    assert.deepEqual(gradeRange("x", "Einführungsphase"), { min: 11, max: 11 });
+    assert.deepEqual(gradeRange("x", "Schuleingangsphase"), { min: 1, max: 2 });
+  });
+
+  it("ignores numbers that are part of words or out of range", () => {
+    assert.deepEqual(gradeRange("x", "G8 Klasse 9"), { min: 9, max: 9 });
+    assert.equal(gradeRange("x", "Klasse 5a"), undefined);
+    assert.equal(gradeRange("x", "Stufe 14"), undefined);
+    assert.equal(gradeRange("x", "Oberstufe"), undefined);
+  });
+
+  it("falls back to the numbered grades of the ontology", () => {
+    assert.deepEqual(gradeRange(`${LP_NAMESPACE}LP_2000007`), { min: 7, max: 7 });
+    assert.deepEqual(gradeRange(`${LP_NAMESPACE}LP_2000013`, "ohne Zahl"), { min: 13, max: 13 });
+    assert.equal(gradeRange(`${LP_NAMESPACE}LP_2000014`), undefined);
+    assert.equal(gradeRange("https://example.org/stufe"), undefined);
+  });
+});
+
+describe("gradesOverlapping and formatStufen", () => {
+  it("match grades sharing a school year with the range", () => {
+    assert.deepEqual(gradesOverlapping(GRADES, 6, 7), ["g:5-6", "g:7"]);
+    assert.deepEqual(gradesOverlapping(GRADES, 9, 11), []);
+    assert.deepEqual(gradesOverlapping(GRADES, 12, 13), ["g:q1"]);
+  });
+
+  it("format one year or a range", () => {
+    assert.equal(formatStufen(7, 7), "7");
+    assert.equal(formatStufen(5, 6), "5–6");
+  });
+});
+
+describe("gradeCoverage", () => {
+  it("combines a Lehrplan's grades in school order", () => {
+    const coverage = gradeCoverage(["lp:a"], GRADES, [
+      ["lp:a", "g:8"],
+      ["lp:a", "g:5-6"],
+    ]);
+    assert.deepEqual(coverage.get("lp:a"), { labels: ["Jahrgangsstufen 5/6", "Klasse 8"], min: 5, max: 8 });
+  });
+
+  it("lists unknown grades by URI without a range", () => {
+    const coverage = gradeCoverage(["lp:a", "lp:b"], GRADES, [
+      ["lp:a", "g:unknown"],
+      ["lp:b", "g:7"],
+      ["lp:b", "g:other"],
+    ]);
+    assert.deepEqual(coverage.get("lp:a"), { labels: ["g:unknown"] });
+    assert.deepEqual(coverage.get("lp:b"), { labels: ["Jahrgangsstufe 7", "g:other"], min: 7, max: 7 });
+  });
+
+  it("keeps Lehrpläne without grades and ignores others", () => {
+    const coverage = gradeCoverage(["lp:a"], GRADES, [["lp:z", "g:7"]]);
+    assert.deepEqual([...coverage.keys()], ["lp:a"]);
+    assert.deepEqual(coverage.get("lp:a"), { labels: [] });
+  });
+});
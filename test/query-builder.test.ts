@@ -0,0 +1,175 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sparqljs from "sparqljs";
+import {
+  QueryBuildError,
+  escapeString,
+  fromClauses,
+  integer,
+  iri,
+  isValidIri,
+  literal,
+  lp,
+  selectQuery,
+  triple,
+  valuesIris,
+  variable,
+} from "../src/query-builder.js";
+
+const parser = new sparqljs.Parser({ prefixes: { rdfs: "http://www.w3.org/2000/01/rdf-schema#" } });
+
+// Hostile strings that must stay one literal value, never query syntax
+const HOSTILE_STRINGS = [
+  'Fische" } UNION { ?s ?p ?o } #',
+  "Biologie\\",
+  'back\\"slash',
+  "line\nbreak\r\nand\ttab",
+  '""" triple quotes',
+  "'single' quotes",
+  "\b\f control",
+  "} ; DROP GRAPH <http://sn-2026-01-29/> ; SELECT * WHERE {",
+  "Überprüfung ✓ émoji 🐟",
+  "",
+];
+
+const HOSTILE_IRIS = [
+  "https://example.org/x> } UNION { ?s ?p ?o",
+  "https://example.org/with space",
+  "https://example.org/a>b",
+  'https://example.org/"quote',
+  "https://example.org/{braces}",
+  "https://example.org/back\\slash",
+  "https://example.org/line\nbreak",
+  "https://example.org/pipe|caret^`tick",
+  "<https://example.org/already-bracketed>",
+  "not a uri",
+  "lp-sachsen.org/resource/522",
+  "",
+];
+
+/** The object of the single triple pattern in a parsed query. */
+function onlyObject(query: string) {
+  const parsed = parser.parse(query) as sparqljs.SelectQuery;
+  assert.equal(parsed.where?.length, 1);
+  const group = parsed.where![0] as sparqljs.BgpPattern;
+  assert.equal(group.type, "bgp");
+  assert.equal(group.triples.length, 1);
+  return group.triples[0].object;
+}
+
+describe("escapeString and literal", () => {
+  for (const value of HOSTILE_STRINGS) {
+    it(`keeps ${JSON.stringify(value)} a single literal`, () => {
+      const query = `SELECT ?s WHERE { ?s rdfs:label ${literal(value)} }`;
+      const object = onlyObject(query);
+      assert.equal(object.termType, "Literal");
+      assert.equal(object.value, value);
+    });
+  }
+
+  it("escapes backslashes before quotes", () => {
+    assert.equal(escapeString('a\\"b'), 'a\\\\\\"b');
+  });
+
+  it("escapes newlines and carriage returns", () => {
+    assert.equal(escapeString("a\nb\rc"), "a\\nb\\rc");
+  });
+
+  it("adds a valid language tag", () => {
+    assert.equal(literal("Fische", "de"), '"Fische"@de');
+    assert.equal(literal("fish", "en-GB"), '"fish"@en-GB');
+  });
+
+  it("rejects language tags that would inject syntax", () => {
+    for (const lang of ["de }", "de\n", "", "de@en", "de-"]) {
+      assert.throws(() => literal("x", lang), QueryBuildError);
+    }
+  });
+});
+
+describe("iri", () => {
+  it("accepts absolute URIs and trims surrounding whitespace", () => {
+    assert.equal(iri(" https://lp-sachsen.org/resource/522 "), "<https://lp-sachsen.org/resource/522>");
+    assert.equal(iri("urn:uuid:1234"), "<urn:uuid:1234>");
+  });
+
+  for (const value of HOSTILE_IRIS) {
+    it(`rejects ${JSON.stringify(value)}`, () => {
+      assert.equal(isValidIri(value.trim()), false);
+      assert.throws(() => iri(value), QueryBuildError);
+    });
+  }
+});
+
+describe("lp, variable and integer", () => {
+  it("accept well-formed input", () => {
+    assert.equal(lp("LP_0000008"), "lp:LP_0000008");
+    assert.equal(variable("label"), "?label");
+    assert.equal(integer(0), "0");
+  });
+
+  it("reject anything else", () => {
+    for (const name of ["LP_8", "LP_0000008 ; ?x", "rdf:type", "LP_0000008>"]) {
+      assert.throws(() => lp(name), QueryBuildError);
+    }
+    for (const name of ["s }", "1s", "?s", "s-label", ""]) {
+      assert.throws(() => variable(name), QueryBuildError);
+    }
+    for (const value of [-1, 1.5, NaN, Infinity, Number.MAX_SAFE_INTEGER + 1]) {
+      assert.throws(() => integer(value), QueryBuildError);
+    }
+  });
+});
+
+describe("query builders", () => {
+  it("render FROM clauses only for valid graph URIs", () => {
+    assert.equal(fromClauses(["http://sn-2026-01-29/"]), "FROM <http://sn-2026-01-29/>");
+    assert.throws(() => fromClauses(["http://sn-2026-01-29/> FROM <http://other/"]), QueryBuildError);
+  });
+
+  it("render VALUES blocks only for valid URIs", () => {
+    assert.equal(valuesIris("s", ["https://example.org/a"]), "VALUES ?s { <https://example.org/a> }");
+    assert.throws(() => valuesIris("s", ["https://example.org/a> } ?x ?y { <b"]), QueryBuildError);
+  });
+
+  it("keep a hostile label filter inside one literal", () => {
+    const name = 'Bio") || true || ("';
+    const query = selectQuery({
+      distinct: true,
+      select: ["?s"],
+      from: ["http://sn-2026-01-29/"],
+      where: [triple("?s", "rdfs:label", "?l"), `FILTER(LCASE(STR(?l)) = ${literal(name.toLowerCase())})`],
+      limit: 10,
+    });
+    const parsed = parser.parse(query) as sparqljs.SelectQuery;
+    const filter = parsed.where!.find((p) => p.type === "filter") as sparqljs.FilterPattern;
+    const expression = filter.expression as sparqljs.OperationExpression;
+    assert.equal(expression.operator, "=");
+    assert.equal((expression.args[1] as sparqljs.Term).value, name.toLowerCase());
+  });
+
+  it("assemble a parseable SELECT with FROM, GROUP BY, ORDER BY, LIMIT and OFFSET", () => {
+    const query = selectQuery({
+      select: ["?s", "(COUNT(*) AS ?n)"],
+      from: ["http://sn-2026-01-29/", "https://w3id.org/lehrplan/ontology/2026-01-19/"],
+      where: [triple("?s", lp("LP_0000008"), "?o")],
+      groupBy: ["?s"],
+      orderBy: ["?s"],
+      limit: 5,
+      offset: 10,
+    });
+    const parsed = parser.parse(query) as sparqljs.SelectQuery;
+    assert.deepEqual(
+      parsed.from?.default.map((g) => g.value),
+      ["http://sn-2026-01-29/", "https://w3id.org/lehrplan/ontology/2026-01-19/"]
+    );
+    assert.equal(parsed.limit, 5);
+    assert.equal(parsed.offset, 10);
+  });
+
+  it("reject invalid LIMIT and OFFSET values", () => {
+    const base = { select: ["?s"], from: ["http://sn-2026-01-29/"], where: [triple("?s", "?p", "?o")] };
+    assert.throws(() => selectQuery({ ...base, limit: -1 }), QueryBuildError);
+    assert.throws(() => selectQuery({ ...base, offset: 2.5 }), QueryBuildError);
+  });
+});
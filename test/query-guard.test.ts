@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sparqljs from "sparqljs";
+import { QueryRejectedError, guardQuery } from "../src/query-guard.js";
+
+const options = { allowedGraphs: ["http://sn-2026-01-29/"], maxLimit: 3 };
+const parser = new sparqljs.Parser();
+
+/** The LIMIT of the query as the endpoint would read it. */
+function effectiveLimit(query: string): number | undefined {
+  return (parser.parse(query) as sparqljs.SelectQuery).limit;
+}
+
+describe("guardQuery LIMIT cap", () => {
+  it("adds the cap when the query has no LIMIT", () => {
+    const { query } = guardQuery("SELECT ?s FROM <http://sn-2026-01-29/> WHERE { ?s ?p ?o }", options);
+    assert.equal(effectiveLimit(query), 3);
+  });
+
+  it("keeps a LIMIT below the cap and the query text as written", () => {
+    const input = "SELECT ?s FROM <http://sn-2026-01-29/> WHERE { ?s ?p ?o } LIMIT 2";
+    const { query } = guardQuery(input, options);
+    assert.ok(query.endsWith(input));
+    assert.equal(effectiveLimit(query), 2);
+  });
+
+  it("lowers a LIMIT above the cap", () => {
+    const { query } = guardQuery("SELECT ?s FROM <http://sn-2026-01-29/> WHERE { ?s ?p ?o } LIMIT 100000", options);
+    assert.equal(effectiveLimit(query), 3);
+  });
+
+  it("is not fooled by LIMIT in a trailing comment", () => {
+    const { query } = guardQuery(
+      "SELECT ?s FROM <http://sn-2026-01-29/> WHERE { ?s ?p ?o } LIMIT 100000 # LIMIT 2",
+      options
+    );
+    assert.equal(effectiveLimit(query), 3);
+  });
+
+  it("is not fooled by LIMIT in a string literal", () => {
+    const { query } = guardQuery(
+      'SELECT ?s FROM <http://sn-2026-01-29/> WHERE { ?s ?p "x" } LIMIT 100000 VALUES ?s { "LIMIT 2" }',
+      options
+    );
+    assert.equal(effectiveLimit(query), 3);
+    assert.match(query, /"LIMIT 2"/);
+  });
+
+  it("is not fooled by LIMIT in a subquery", () => {
+    const { query } = guardQuery(
+      "SELECT ?s FROM <http://sn-2026-01-29/> WHERE { { SELECT ?s WHERE { ?s ?p ?o } LIMIT 1 } } LIMIT 100000",
+      options
+    );
+    assert.equal(effectiveLimit(query), 3);
+  });
+
+  it("keeps bif:contains undeclared when lowering a LIMIT", () => {
+    const { query } = guardQuery(
+      "SELECT ?s FROM <http://sn-2026-01-29/> WHERE { ?s rdfs:label ?l . ?l bif:contains \"'Fisch*'\" } LIMIT 100000",
+      options
+    );
+    assert.doesNotMatch(query, /PREFIX bif:/);
+    assert.match(query, /\?l bif:contains "'Fisch\*'"/);
+    const reparsed = new sparqljs.Parser({ prefixes: { bif: "bif:" } }).parse(query) as sparqljs.SelectQuery;
+    assert.equal(reparsed.limit, 3);
+  });
+
+  it("caps CONSTRUCT queries and leaves ASK alone", () => {
+    const construct = guardQuery(
+      "CONSTRUCT { ?s ?p ?o } FROM <http://sn-2026-01-29/> WHERE { ?s ?p ?o } LIMIT 50 # LIMIT 1",
+      options
+    );
+    assert.equal((parser.parse(construct.query) as sparqljs.ConstructQuery).limit, 3);
+    const ask = guardQuery("ASK FROM <http://sn-2026-01-29/> WHERE { ?s ?p ?o }", options);
+    assert.doesNotMatch(ask.query, /LIMIT/);
+  });
+});
+
+describe("guardQuery rejections", () => {
+  it("rejects updates, SERVICE and unknown graphs", () => {
+    for (const query of [
+      "INSERT DATA { GRAPH <http://sn-2026-01-29/> { <a:b> <a:c> <a:d> } }",
+      "SELECT * FROM <http://sn-2026-01-29/> WHERE { SERVICE <http://evil/> { ?s ?p ?o } }",
+      "SELECT * FROM <http://other/> WHERE { ?s ?p ?o }",
+      "SELECT * FROM <http://sn-2026-01-29/> WHERE { GRAPH <http://other/> { ?s ?p ?o } }",
+      "SELECT * WHERE { ?s ?p ?o }",
+    ]) {
+      assert.throws(() => guardQuery(query, options), QueryRejectedError, query);
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SYNONYMS, editDistance, normalizeName, pickEntry, rankEntries } from "../src/resolve.js";
+
+const entries = (...labels: string[]) => labels.map((label, i) => ({ uri: `urn:entry:${i}`, label }));
+
+const FAECHER = entries(
+  "Biologie",
+  "Mathematik",
+  "Deutsch",
+  "Geographie",
+  "Geschichte",
+  "Evangelische Religionslehre",
+  "Katholische Religionslehre",
+  "Chemie",
+  "Physik",
+  "Informatik",
+  "Gemeinschaftskunde/Rechtserziehung",
+  "Heimat- und Sachunterricht"
+);
+const SCHULARTEN = entries("Gymnasium", "Oberschule", "Oberschule (Sachsen)", "Grundschule", "Realschule");
+
+const pickFach = (input: string) => pickEntry("schulfach", input, FAECHER).label;
+const pickSchulart = (input: string) => pickEntry("schulart", input, SCHULARTEN).label;
+
+describe("normalizeName and editDistance", () => {
+  it("spell out umlauts and collapse punctuation", () => {
+    assert.equal(normalizeName("  Heimat- und Sachunterricht "), "heimat und sachunterricht");
+    assert.equal(normalizeName("Französisch/Größe"), "franzoesisch groesse");
+  });
+
+  it("count insertions, deletions and substitutions", () => {
+    assert.equal(editDistance("biologie", "biologie"), 0);
+    assert.equal(editDistance("biolgie", "biologie"), 1);
+    assert.equal(editDistance("fisik", "physik"), 3);
+    assert.equal(editDistance("", "abc"), 3);
+  });
+});
+
+describe("pickEntry", () => {
+  it("matches exact names regardless of case and umlauts", () => {
+    assert.equal(pickFach("biologie"), "Biologie");
+    assert.equal(pickFach("HEIMAT- UND SACHUNTERRICHT"), "Heimat- und Sachunterricht");
+  });
+
+  it("resolves built-in synonyms and abbreviations", () => {
+    assert.equal(pickFach("Bio"), "Biologie");
+    assert.equal(pickFach("mathe"), "Mathematik");
+    assert.equal(pickFach("Erdkunde"), "Geographie");
+    assert.equal(pickFach("HSU"), "Heimat- und Sachunterricht");
+    assert.equal(pickSchulart("gym"), "Gymnasium");
+  });
+
+  it("completes prefixes of a name or of one of its words", () => {
+    assert.equal(pickFach("Chemi"), "Chemie");
+    assert.equal(pickFach("Gemeinschaftskunde"), "Gemeinschaftskunde/Rechtserziehung");
+  });
+
+  it("tolerates small typos", () => {
+    assert.equal(pickFach("Biolgie"), "Biologie");
+    assert.equal(pickFach("Mathematk"), "Mathematik");
+    assert.equal(pickSchulart("Realschul"), "Realschule");
+  });
+
+  it("prefers the exact name over one that differs only in a qualifier", () => {
+    assert.equal(pickSchulart("Oberschule"), "Oberschule");
+    assert.equal(pickSchulart("Oberschule (Sachsen)"), "Oberschule (Sachsen)");
+    assert.equal(pickSchulart("oberschule sachsen"), "Oberschule (Sachsen)");
+  });
+
+  it("rejects inputs that match several entries about equally well", () => {
+    assert.throws(() => pickFach("Religion"), (e: Error) => {
+      assert.match(e.message, /^Schulfach "Religion" is ambiguous\. Did you mean one of: /);
+      assert.match(e.message, /"Evangelische Religionslehre"/);
+      assert.match(e.message, /"Katholische Religionslehre"/);
+      return true;
+    });
+  });
+
+  it("rejects weak matches and names the closest entries", () => {
+    assert.throws(() => pickFach("Fisik"), /Schulfach "Fisik" not found.*Closest: "Physik"/);
+    assert.throws(() => pickFach("ge"), /not found.*Use list_schulfaecher/);
+    assert.throws(() => pickSchulart("Schule"), /Schulart "Schule" not found.*Use list_schularten/);
+  });
+
+  it("reports an empty vocabulary without candidates", () => {
+    assert.throws(() => pickEntry("schulfach", "Biologie", []), (e: Error) => !e.message.includes("Closest"));
+  });
+});
+
+describe("rankEntries", () => {
+  it("orders entries best first, ties by label", () => {
+    const ranked = rankEntries("Religion", FAECHER, SYNONYMS.schulfach);
+    assert.ok(ranked.every((e, i) => i === 0 || ranked[i - 1].score >= e.score));
+    assert.deepEqual(
+      ranked.slice(0, 2).map((e) => e.label).sort(),
+      ["Evangelische Religionslehre", "Katholische Religionslehre"]
+    );
+    const tied = rankEntries("qqq", entries("Beta", "Alpha"), SYNONYMS.schulfach);
+    assert.deepEqual(tied.map((e) => [e.label, e.score]), [["Alpha", 0], ["Beta", 0]]);
+  });
+
+  it("scores only the exact name 1", () => {
+    const ranked = rankEntries("Oberschule", SCHULARTEN, SYNONYMS.schulart);
+    assert.deepEqual(
+      ranked.filter((e) => e.score === 1).map((e) => e.label),
+      ["Oberschule"]
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type SearchTerm, bm25, parseSearchQuery, rankHits, snippet } from "../src/search.js";
+
+const word = (w: string): SearchTerm => ({ words: [w], prefix: true });
+const phrase = (...words: string[]): SearchTerm => ({ words, prefix: false });
+
+describe("parseSearchQuery", () => {
+  it("ANDs words and matches them by prefix", () => {
+    assert.deepEqual(parseSearchQuery("Fisch AND Amphib"), {
+      groups: [[word("fisch")], [word("amphib")]],
+      excluded: [],
+    });
+  });
+
+  it("joins alternatives with OR and excludes with NOT or a leading -", () => {
+    assert.deepEqual(parseSearchQuery('fisch OR vogel -mensch NOT "rote liste"'), {
+      groups: [[word("fisch"), word("vogel")]],
+      excluded: [word("mensch"), phrase("rote", "liste")],
+    });
+    assert.deepEqual(parseSearchQuery('wal -"blau wal"').excluded, [phrase("blau", "wal")]);
+  });
+
+  it("matches quoted phrases exactly and splits them into words", () => {
+    assert.deepEqual(parseSearchQuery('"Fische, Amphibien"').groups, [[phrase("fische", "amphibien")]]);
+  });
+
+  it("reads an unterminated quote to the end of the input", () => {
+    assert.deepEqual(parseSearchQuery('wal "fische und').groups, [[word("wal")], [phrase("fische", "und")]]);
+  });
+
+  it("ignores a leading, trailing or repeated OR", () => {
+    assert.deepEqual(parseSearchQuery("OR fisch").groups, [[word("fisch")]]);
+    assert.deepEqual(parseSearchQuery("fisch OR").groups, [[word("fisch")]]);
+    assert.deepEqual(parseSearchQuery("fisch OR OR vogel").groups, [[word("fisch"), word("vogel")]]);
+  });
+
+  it("ignores NOT or - with nothing after it", () => {
+    assert.deepEqual(parseSearchQuery("fisch NOT"), { groups: [[word("fisch")]], excluded: [] });
+    assert.deepEqual(parseSearchQuery("- fisch"), { groups: [[word("fisch")]], excluded: [] });
+  });
+
+  it("drops punctuation such as a trailing wildcard", () => {
+    assert.deepEqual(parseSearchQuery("fisch*").groups, [[word("fisch")]]);
+  });
+
+  it("rejects queries with nothing that must match", () => {
+    for (const input of ["", "OR", "NOT fisch", "-fisch", '""', "* ?"]) {
+      assert.throws(() => parseSearchQuery(input), /Nothing to search for/, input);
+    }
+  });
+});
+
+describe("snippet", () => {
+  it("bolds whole-word and prefix matches", () => {
+    assert.equal(snippet("Fische und Amphibien", parseSearchQuery("fisch amphib")), "**Fische** und **Amphibien**");
+  });
+
+  it("does not extend a phrase match to longer words", () => {
+    assert.equal(snippet("Fischer fischen", parseSearchQuery('"fisch"')), "Fischer fischen");
+    assert.equal(
+      snippet("Die Fische im Wasser", parseSearchQuery('"fische im"')),
+      "Die **Fische im** Wasser"
+    );
+  });
+
+  it("bolds overlapping matches once", () => {
+    assert.equal(snippet("Fische", parseSearchQuery("fisch OR fische")), "**Fische**");
+  });
+
+  it("leaves excluded terms plain", () => {
+    assert.equal(snippet("Fische und Vögel", parseSearchQuery("fisch -vögel")), "**Fische** und Vögel");
+  });
+
+  it("cuts long labels to a window around the first match", () => {
+    const label = `${"a ".repeat(100)}Fische ${"b ".repeat(100)}`;
+    const text = snippet(label, parseSearchQuery("fisch"));
+    assert.match(text, /^…a .*\*\*Fische\*\* b .*…$/);
+    assert.ok(text.length <= 160 + 4 + 2);
+  });
+
+  it("keeps the window inside the label for matches near its end", () => {
+    const label = `${"a ".repeat(100)}Fische`;
+    const text = snippet(label, parseSearchQuery("fisch"));
+    assert.ok(text.startsWith("…"));
+    assert.ok(text.endsWith("**Fische**"));
+  });
+});
+
+describe("bm25", () => {
+  const fisch = word("fisch");
+  const vogel = word("vogel");
+  const corpus = { documents: 1000, frequency: new Map([[fisch, 10], [vogel, 500]]), averageLength: 3 };
+
+  it("scores labels without a matching term as 0", () => {
+    assert.equal(bm25("Säugetiere", corpus), 0);
+  });
+
+  it("weighs rare terms above common ones", () => {
+    assert.ok(bm25("Vogel heute", corpus) > 0);
+    assert.ok(bm25("Fische heute", corpus) > bm25("Vogel heute", corpus));
+  });
+
+  it("prefers shorter labels and more matched terms", () => {
+    assert.ok(bm25("Fische", corpus) > bm25("Fische in Flüssen und Seen", corpus));
+    assert.ok(bm25("Fische und Vogelarten", corpus) > bm25("Fische und Reptilien", corpus));
+  });
+});
+
+describe("rankHits", () => {
+  it("keeps the best text score per node and sorts by score, then label", async () => {
+    const hits = await rankHits(
+      [
+        { uri: "n:1", label: "Fische", score: 2 },
+        { uri: "n:1", label: "Fische", score: 5 },
+        { uri: "n:2", label: "Amphibien und Fische", score: 5 },
+        { uri: "n:3", label: "Fischerei", score: 1 },
+      ],
+      parseSearchQuery("fisch"),
+      []
+    );
+    assert.deepEqual(
+      hits.map((h) => [h.uri, h.score]),
+      [["n:2", 5], ["n:1", 5], ["n:3", 1]]
+    );
+    assert.equal(hits[0].snippet, "Amphibien und **Fische**");
+  });
+});
@@ -0,0 +1,3 @@
+// Modules that read the configuration on import need a valid one. The example
+// config names the endpoint and graphs; tests never send it a query.
+process.env.CONFIG_FILE = "config.example.json";